@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkAllowedModules } from '../../../../utils/python/imports';
+import { effectivePolicies, getExecutionPolicy, policyPath } from '../../../../utils/python/policy';
+
+// Callers must send ADMIN_TOKEN as a bearer token; without one configured nobody is let in
+function authorized(req: NextRequest): boolean {
+  const token = process.env.ADMIN_TOKEN;
+  return Boolean(token) && req.headers.get('authorization') === `Bearer ${token}`;
+}
+
+// The policy file as loaded, what each Python tool gets in each tutor mode, and whether the allowed modules import.
+// `?recheck=1` imports the modules again, e.g. after installing a package.
+export async function GET(req: NextRequest) {
+  if (!authorized(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const modules = await checkAllowedModules(req.nextUrl.searchParams.get('recheck') === '1');
+    return NextResponse.json({
+      path: policyPath(),
+      policy: getExecutionPolicy(),
+      effective: effectivePolicies(),
+      modules,
+    });
+  } catch (error) {
+    console.error('Error loading execution policy:', error);
+    return NextResponse.json({ error: 'Failed to load execution policy' }, { status: 500 });
+  }
+}
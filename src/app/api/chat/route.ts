@@ -1,27 +1,16 @@
-import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold, FunctionResponse, FunctionCallingMode } from "@google/generative-ai";
 import { NextRequest, NextResponse } from 'next/server';
-import { executePythonCode } from '../../../utils/executePython';
-import { getChart } from '../../../utils/chartUtils';
-import { ChartConfiguration } from 'chart.js';
-
-// Add type definitions for messages
-type MessageRole = "user" | "model" | "function" | "system";
-interface ChatMessage {
-  role: MessageRole;
-  parts: { text?: string; functionCall?: any; functionResponse?: any }[];
-}
-
-// Add new type definitions
-type QuizType = "mcq" | "fillInBlank";
-
-interface Quiz {
-  type: QuizType;
-  question: string;
-  options?: string[];
-  correctAnswer: string;
-}
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+import crypto from 'crypto';
+import { z } from 'zod';
+import { CHAT_STREAM_CONTENT_TYPE, ChatStreamEvent, encodeChatEvent } from '../../../utils/chatEvents';
+import { getProvider, GenerationConfig } from '../../../utils/llm';
+import { ChatTurnRequest, ChatTurnResult, runChatTurn } from '../../../utils/chatTurn';
+import { selectTools, StepSolution, stepsToText, toToolDeclaration } from '../../../utils/tools';
+import { DEFAULT_LEARNER_PROFILE, profileInstruction } from '../../../utils/learnerProfile';
+import { getProfileStore, readLearnerId } from '../../../utils/profiles';
+import { DEFAULT_TUTOR_MODE, TUTOR_MODES, tutorModes } from '../../../utils/tutorModes';
+import { budgetHistory, HistorySummary, summaryInstruction } from '../../../utils/historyBudget';
+import { branchPath, getOwnedSession, getSessionStore, NewMessage, StoredMessage } from '../../../utils/sessions';
+import { revisionRequest, verificationMode, verifyReply } from '../../../utils/verification';
 
 const SYSTEM_PROMPT = `You are a helpful math tutor who explains mathematical concepts clearly and can demonstrate solutions using Python code and visualizations. 
 
@@ -40,13 +29,16 @@ Available functions:
    - Mathematical calculations and demonstrations
    - Numeric solutions to problems
    - Mathematical pattern generation
+   - Matplotlib figures that charts cannot draw, such as contour plots, vector fields, polar graphs and histograms with fitted curves; open figures are shown to the student automatically
+   Variables, functions and imports from earlier runPython calls in this conversation are still defined, so build on them instead of repeating the setup
    Example: When solving equations or demonstrating mathematical properties
 
 2. getChart: Use this for mathematical visualizations:
-   - Function plots
-   - Statistical distributions
-   - Numerical comparisons
-   Available types: bar, line, pie
+   - Statistical distributions, as histograms of the raw values
+   - Numerical comparisons across several named datasets
+   - Paired data as scatter or bubble charts, with logarithmic axes when values span orders of magnitude
+   Available types: bar, line, pie, doughnut, scatter, bubble, histogram
+   Always give axis titles with units; use the colorblind palette when colour carries meaning
    Example: When visualizing mathematical relationships or data patterns
 
 3. generateMermaid: Use this for creating diagrams:
@@ -55,231 +47,306 @@ Available functions:
    - Class diagrams for mathematical relationships
    Available types: flowchart, sequence, class, state, er, gantt
 
+4. symbolic: Use this for exact algebra and calculus instead of working it out in your head:
+   - Solving equations and ODEs
+   - Simplifying, factoring and expanding expressions
+   - Derivatives, integrals, limits and series
+   Example: Check an antiderivative before presenting it, then quote its LaTeX result
+
+5. showSteps: Use this to present a worked solution as numbered steps:
+   - Each step has a title, the resulting expression in LaTeX and a one-line justification
+   - Quote tool results a step depends on in its toolResult
+   - Keep the surrounding reply short; the steps carry the solution
+
+6. plotFunction: Use this to graph functions such as y = sin(x)/x:
+   - Give the expressions, the variable and the domain; the server computes the points
+   - Several functions share one set of axes, e.g. a function and its derivative
+   Example: Never compute plot points yourself for getChart when plotFunction can draw the curve
+
+The tutoring mode below decides which of these functions are declared to you; never call a function that is not declared.
+
+You may call several functions in one turn or chain them across turns, for example running Python to compute values and then passing the results to getChart.
+
 For generating quizzes, use the 'generateQuiz' function. When asked to create a question or test knowledge:
 - Create questions that test understanding of the topic
 - Make questions clear and focused
-- Always use the generateQuiz function to format the quiz properly`;
+- Always use the generateQuiz function to format the quiz properly
+- When one of templateQuiz's templates covers the topic, use templateQuiz instead: its answers are computed, so they are always right. Pass the seed of an earlier templated quiz to repeat that exact problem
 
-const toolDeclarations = [
-  {
-    functionDeclarations: [
-      {
-        name: "runPython",
-        description: "Executes AI-generated Python code for mathematical demonstrations. Not for user-provided code.",
-        parameters: {
-          type: "object",
-          properties: {
-            code: {
-              type: "string",
-              description: "AI-generated Python code for mathematical calculations.",
-            },
-          },
-          required: ["code"],
-        },
-      },
-      {
-        name: "getChart",
-        description: "Generates a chart based on provided data.",
-        parameters: {
-          type: "object",
-          properties: {
-            type: {
-              type: "string",
-              description: "Type of chart (e.g., bar, line, pie).",
-              enum: ["bar", "line", "pie"],
-            },
-            data: {
-              type: "array",
-              items: { type: "number" },
-              description: "Data points for the chart.",
-            },
-            labels: {
-              type: "array",
-              items: { type: "string" },
-              description: "Labels for the chart data.",
-            },
-          },
-          required: ["type", "data", "labels"],
-        },
-      },
-      {
-        name: "generateMermaid",
-        description: "Generates a Mermaid diagram",
-        parameters: {
-          type: "object",
-          properties: {
-            code: {
-              type: "string",
-              description: "Mermaid diagram code",
-            },
-            type: {
-              type: "string",
-              description: "Type of diagram (flowchart, sequence, etc.)",
-              enum: ["flowchart", "sequence", "class", "state", "er", "gantt"],
-            },
-          },
-          required: ["code", "type"],
-        },
-      },
-      {
-        name: "generateQuiz",
-        description: "Generates a quiz question",
-        parameters: {
-          type: "object",
-          properties: {
-            type: {
-              type: "string",
-              description: "Type of quiz (mcq or fillInBlank)",
-              enum: ["mcq", "fillInBlank"],
-            },
-            question: {
-              type: "string",
-              description: "The quiz question text",
-            },
-            options: {
-              type: "array",
-              items: { type: "string" },
-              description: "Options for MCQ (required for MCQ type)",
-            },
-            correctAnswer: {
-              type: "string",
-              description: "The correct answer",
-            },
-          },
-          required: ["type", "question", "correctAnswer"],
-        },
-      },
-    ],
-  },
-];
-
-const model = genAI.getGenerativeModel({
-  model: "gemini-exp-1206",
-  systemInstruction: SYSTEM_PROMPT,
-  tools: toolDeclarations,
-  safetySettings: [
-    {
-        category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-        threshold: HarmBlockThreshold.BLOCK_NONE,
-    },
-    {
-        category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-        threshold: HarmBlockThreshold.BLOCK_NONE,
-    },
-    {
-        category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-        threshold: HarmBlockThreshold.BLOCK_NONE,
-    },
-    {
-        category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-        threshold: HarmBlockThreshold.BLOCK_NONE,
-    },
-],
-    toolConfig: { functionCallingConfig: { mode: FunctionCallingMode.AUTO } },
-});
+When the student answers a quiz, say whether the answer is correct. If it is not, point out what went wrong without giving the correct answer, and suggest unlocking the next hint below the quiz. The student's message says how many hints they have used; reveal the answer only once they have used every hint.`;
 
-const generationConfig = {
+const generationConfig: GenerationConfig = {
   temperature: 1,
   topP: 0.95,
   topK: 64,
   maxOutputTokens: 8192,
 };
 
-export async function POST(req: NextRequest) {
+// Reply text plus any step-by-step solutions, which carry the final answer outside the text
+function verifiableText({ text, functionOutputs }: Pick<ChatTurnResult, 'text' | 'functionOutputs'>): string {
+  const solutions = functionOutputs
+    .filter(({ kind }) => kind === 'steps')
+    .map(({ output }) => stepsToText(output as StepSolution));
+  return [text, ...solutions].join('\n\n');
+}
+
+// Recomputes the reply's final answers and, in 'revise' mode, gives the model one chance to correct a mismatch
+// unless the tutor mode withholds answers
+async function runVerifiedTurn(
+  turn: ChatTurnRequest,
+  send: (event: ChatStreamEvent) => void = () => {},
+): Promise<ChatTurnResult> {
+  let result = await runChatTurn(turn, send);
+  const mode = verificationMode();
+  if (result.cancelled || mode === 'off') {
+    return result;
+  }
+
+  // The check waits in the student's queue and gets their mode's policy, like their own Python runs
+  const checkOptions = {
+    signal: turn.signal,
+    userKey: turn.toolContext.learnerId ?? turn.toolContext.sessionId,
+    mode: turn.toolContext.mode,
+  };
   try {
-    const { messages } = await req.json();
-    console.log('User message received:', messages);
-
-    // Convert incoming messages to the proper format for Gemini API
-    const formattedHistory: ChatMessage[] = messages.slice(0, -1).map((msg: any) => ({
-      role: msg.role === 'assistant' ? 'model' : msg.role,
-      parts: [{ text: msg.content }],
-    }));
-
-    const chatSession = model.startChat({
-      generationConfig,
-      history: formattedHistory,
-    });
+    let verification = await verifyReply(turn.provider, turn.currentMessage, verifiableText(result), checkOptions);
 
-    // Format the current message
-    const currentMessage = messages[messages.length - 1].content;
-    const result = await chatSession.sendMessage(currentMessage);
-    const response = result.response;
-    let finalResponse = null;
-
-    // Simplified function response handling
-    if (response.candidates?.[0].content.parts) {
-      const functionCall = response.candidates[0].content.parts.find(part => part.functionCall);
-      
-      if (functionCall) {
-        const { name: functionName, args } = functionCall.functionCall;
-        let functionOutput = null;
-
-        switch (functionName) {
-          case 'runPython':
-            const data = await executePythonCode(args.code);
-            functionOutput = data.output || data.error;
-            break;
-          case 'getChart':
-            functionOutput = { chart: await getChart(args.type, args.data, args.labels) };
-            break;
-          case 'generateMermaid':
-            functionOutput = { mermaid: validateMermaidCode(args.code, args.type) };
-            break;
-          case 'generateQuiz':
-            functionOutput = { quiz: args };
-            break;
-        }
+    if (mode === 'revise' && turn.tutorMode.revisesAnswers && verification.claims.some(claim => claim.outcome === 'disagrees')) {
+      const request = revisionRequest(verification);
+      send({ type: 'text', delta: '\n\n' });
+      const revision = await runChatTurn({ ...turn, currentMessage: request }, send);
+      result = {
+        text: `${result.text}\n\n${revision.text}`,
+        functionOutputs: [...result.functionOutputs, ...revision.functionOutputs],
+        // The follow-up is replayed too, so later turns see why the answer changed
+        turns: [...result.turns, { role: 'user', parts: [{ text: request }] }, ...revision.turns],
+        cancelled: revision.cancelled,
+      };
+      if (result.cancelled) {
+        return result;
+      }
+
+      const recheck = await verifyReply(turn.provider, turn.currentMessage, verifiableText(result), checkOptions);
+      // A revision that no longer states a checkable answer has still not been verified
+      verification = { ...recheck, status: recheck.status === 'none' ? 'unverified' : recheck.status, revised: true };
+    }
 
-        if (functionOutput) {
-          const functionResult = await chatSession.sendMessage([{
-            functionResponse: { name: functionName, response: { content: functionOutput } }
-          }]);
+    send({ type: 'verification', verification });
+    return { ...result, verification };
+  } catch (error) {
+    if (!turn.signal.aborted) {
+      console.error('Answer verification failed:', error);
+    }
+    return result;
+  }
+}
+
+// Called with the finished turn before `done` is sent, e.g. to persist it
+type TurnCompleteHandler = (result: ChatTurnResult) => Promise<unknown>;
+
+interface StreamChatOptions {
+  // Events sent before the model starts answering
+  prelude?: ChatStreamEvent[];
+  onComplete?: TurnCompleteHandler;
+  // Called when the client stops reading, i.e. the student aborted the fetch
+  onCancel?: () => void;
+}
+
+function streamChat(turn: ChatTurnRequest, { prelude = [], onComplete, onCancel }: StreamChatOptions = {}): Response {
+  const encoder = new TextEncoder();
+  // The turn keeps running after a cancel so it can be recorded, but nothing more can be enqueued
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(encodeChatEvent(event)));
+        }
+      };
 
-          return NextResponse.json({
-            response: functionResult.response.text(),
-            functionOutput
-          });
+      try {
+        prelude.forEach(send);
+        const result = await runVerifiedTurn(turn, send);
+        await onComplete?.(result);
+        send({ type: 'done' });
+      } catch (error) {
+        console.error('Streaming error:', error);
+        send({ type: 'error', message: 'Failed to process request' });
+      } finally {
+        if (!closed) {
+          controller.close();
         }
       }
+    },
+    cancel() {
+      closed = true;
+      onCancel?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': CHAT_STREAM_CONTENT_TYPE,
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
+
+// The stored summary only applies while the branch still starts with the messages it covers;
+// summaries written before branching have no marker and came from a linear history
+function summaryForBranch(summary: HistorySummary | undefined, path: StoredMessage[]): HistorySummary | undefined {
+  if (!summary?.lastMessageId) return summary;
+  return path[summary.coveredMessageCount - 1]?.id === summary.lastMessageId ? summary : undefined;
+}
+
+// History always comes from the stored session, never from the client, so replayed tool calls are the server's own
+const chatRequestSchema = z.union([
+  z.object({
+    sessionId: z.string(),
+    message: z.string().trim().min(1),
+    // Message the question follows; defaults to the active leaf, and an earlier id forks a new branch
+    parentId: z.string().nullable().optional(),
+    mode: z.enum(TUTOR_MODES).default(DEFAULT_TUTOR_MODE),
+    stream: z.boolean().optional(),
+  }),
+  z.object({
+    sessionId: z.string(),
+    // Stored question to answer again; the new reply becomes a sibling of the earlier ones
+    regenerate: z.string(),
+    mode: z.enum(TUTOR_MODES).default(DEFAULT_TUTOR_MODE),
+    stream: z.boolean().optional(),
+  }),
+]);
+
+export async function POST(req: NextRequest) {
+  try {
+    const parsed = chatRequestSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+    }
+
+    const request = parsed.data;
+    const provider = getProvider();
+    const prelude: ChatStreamEvent[] = [];
+    const learnerId = readLearnerId(req);
+
+    const store = getSessionStore();
+    const session = await getOwnedSession(request.sessionId, learnerId);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    let path: StoredMessage[];
+    let userMessageId: string;
+    let currentMessage: string;
+    const newMessages: NewMessage[] = [];
+
+    if ('regenerate' in request) {
+      const question = session.messages.find(message => message.id === request.regenerate && message.role === 'user');
+      if (!question) {
+        return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+      }
+      path = branchPath(session.messages, question.parentId);
+      userMessageId = question.id;
+      currentMessage = question.content;
+    } else {
+      const parentId = request.parentId === undefined ? session.activeLeafId : request.parentId;
+      if (parentId && !session.messages.some(message => message.id === parentId)) {
+        return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+      }
+      path = branchPath(session.messages, parentId);
+      userMessageId = crypto.randomUUID();
+      currentMessage = request.message;
+      newMessages.push({ id: userMessageId, parentId, role: 'user', content: currentMessage });
+    }
+
+    const assistantMessageId = crypto.randomUUID();
+    prelude.push({ type: 'start', userMessageId, assistantMessageId });
+
+    const budgeted = await budgetHistory(provider, path, summaryForBranch(session.summary, path));
+    if (budgeted.summarized && budgeted.summary) {
+      const { coveredMessageCount } = budgeted.summary;
+      await store.updateSummary(session.id, { ...budgeted.summary, lastMessageId: path[coveredMessageCount - 1]?.id });
+    }
+    // Persist the question together with its answer so a failed turn leaves no dangling message
+    const onComplete: TurnCompleteHandler = ({ text, functionOutputs, turns, cancelled, verification }) => store.appendMessages(session.id, [
+      ...newMessages,
+      {
+        id: assistantMessageId,
+        parentId: userMessageId,
+        role: 'assistant',
+        content: text,
+        functionOutputs,
+        turns,
+        verification,
+        ...(cancelled ? { status: 'cancelled' } : {}),
+      },
+    ]);
+    console.log('User message received:', currentMessage);
+
+    const profile = (learnerId && await getProfileStore().get(learnerId)) || DEFAULT_LEARNER_PROFILE;
+
+    const mode = tutorModes[request.mode];
+    const tools = selectTools(mode.allowedTools);
+    const chatSession = provider.startChat({
+      systemInstruction: [
+        SYSTEM_PROMPT,
+        mode.promptFragment,
+        profileInstruction(profile),
+      ].join('\n\n') + summaryInstruction(budgeted.summary),
+      tools: tools.map(toToolDeclaration),
+      history: budgeted.history,
+      generationConfig: { ...generationConfig, temperature: mode.temperature },
+    });
+
+    // Stopping the reply reaches the provider request and any running tool through this signal
+    const abortController = new AbortController();
+    req.signal.addEventListener('abort', () => abortController.abort(), { once: true });
+    const { signal } = abortController;
+    const turn: ChatTurnRequest = {
+      provider,
+      chatSession,
+      currentMessage,
+      tools,
+      tutorMode: mode,
+      toolContext: {
+        profile,
+        signal,
+        sessionId: session.id,
+        learnerId: learnerId ?? undefined,
+        mode: request.mode,
+      },
+      signal,
+    };
+
+    const summarized = budgeted.summarized && budgeted.summary
+      ? { coveredMessageCount: budgeted.summary.coveredMessageCount }
+      : undefined;
+
+    if (summarized) {
+      prelude.push({ type: 'summary', ...summarized });
     }
 
-    return NextResponse.json({ response: response.text() });
+    if (request.stream) {
+      return streamChat(turn, {
+        prelude,
+        onComplete,
+        onCancel: () => abortController.abort(),
+      });
+    }
+
+    const result = await runVerifiedTurn(turn);
+    await onComplete(result);
+    return NextResponse.json({
+      response: result.text,
+      functionOutputs: result.functionOutputs,
+      verification: result.verification,
+      summarized,
+    });
     
   } catch (error) {
     console.error('Error:', error);
     return NextResponse.json({ error: 'Failed to process request' }, { status: 500 });
   }
 }
-
-const validateMermaidCode = (code: string, type: string) => {
-  const typeMap = {
-    'flowchart': 'flowchart TD',
-    'sequence': 'sequenceDiagram',
-    'class': 'classDiagram',
-    'state': 'stateDiagram-v2',
-    'er': 'erDiagram',
-    'gantt': 'gantt'
-  };
-
-  let processedCode = code.trim()
-    .replace(/\\n/g, '\n')
-    .replace(/\\\\/g, '\\')
-    .replace(/\n{2,}/g, '\n')
-    .replace(/^TD;/gm, '')
-    .replace(/^\s*TD\s*$/gm, '');
-
-  // Clean up flowchart declarations
-  if (type === 'flowchart') {
-    processedCode = processedCode
-      .replace(/^(?:graph|flowchart)\s+TD\s+(?:graph|flowchart)\s+TD/gm, typeMap[type])
-      .replace(/^(?:graph|flowchart)\s+TD\s+TD/gm, typeMap[type]);
-  }
-
-  // Ensure proper diagram type prefix
-  if (!processedCode.startsWith(typeMap[type])) {
-    processedCode = `${typeMap[type]}\n${processedCode}`;
-  }
-
-  return processedCode;
-};
\ No newline at end of file
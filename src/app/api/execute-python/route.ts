@@ -1,5 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { executePythonCode } from '@/utils/executePython'; // Import the utility function
+import { executionSucceeded } from '@/utils/python/types';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -11,10 +12,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   try {
     const result = await executePythonCode(code);
 
-    if (result.error) {
-      res.status(400).json({ error: result.error });
+    if (!executionSucceeded(result)) {
+      res.status(400).json({ error: result.error ?? result.stderr });
     } else {
-      res.status(200).json({ output: result.output });
+      res.status(200).json({ output: result.stdout.trim() });
     }
   } catch (err) {
     res.status(500).json({ error: 'Failed to execute code' });
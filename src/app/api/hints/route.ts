@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getProvider } from '../../../utils/llm';
+import { DEFAULT_LEARNER_PROFILE } from '../../../utils/learnerProfile';
+import { getProfileStore, readLearnerId } from '../../../utils/profiles';
+import { getOwnedSession, getSessionStore } from '../../../utils/sessions';
+import { HINT_LEVELS, hintLadderFor, hintProblem } from '../../../utils/hints';
+
+// `count` is how many hints the student wants unlocked; only those are sent back
+const hintRequestSchema = z.object({
+  count: z.number().int().min(1).max(HINT_LEVELS.length),
+  // Message the hints belong to, which also decides the problem and records the number used
+  sessionId: z.string(),
+  messageId: z.string(),
+});
+
+export async function POST(req: NextRequest) {
+  try {
+    const parsed = hintRequestSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+    }
+
+    const { count, sessionId, messageId } = parsed.data;
+    const learnerId = readLearnerId(req);
+
+    const session = await getOwnedSession(sessionId, learnerId);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    const message = session.messages.find(candidate => candidate.id === messageId);
+    const problem = message && hintProblem(session.messages, message);
+    if (!message || !problem) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+    // Hints unlock one at a time, so the full solution is never the first thing a student sees
+    const unlocked = message.hintsUsed ?? 0;
+    if (count > unlocked + 1) {
+      return NextResponse.json({ error: 'Unlock the earlier hints first' }, { status: 403 });
+    }
+    const hintsUsed = Math.max(unlocked, count);
+
+    const profile = (learnerId && await getProfileStore().get(learnerId)) || DEFAULT_LEARNER_PROFILE;
+    const ladder = await hintLadderFor(getProvider(), problem, profile);
+
+    await getSessionStore().recordHintsUsed(sessionId, messageId, hintsUsed);
+
+    return NextResponse.json({ hints: ladder.hints.slice(0, count), total: ladder.hints.length, hintsUsed });
+  } catch (error) {
+    console.error('Error loading hints:', error);
+    return NextResponse.json({ error: 'Failed to load hints' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_LEARNER_PROFILE, learnerProfileSchema } from '../../../utils/learnerProfile';
+import { createLearnerId, getProfileStore, readLearnerId, setLearnerCookie } from '../../../utils/profiles';
+
+export async function GET(req: NextRequest) {
+  try {
+    const learnerId = readLearnerId(req);
+    const profile = learnerId ? await getProfileStore().get(learnerId) : null;
+    return setLearnerCookie(
+      NextResponse.json({ profile: profile ?? DEFAULT_LEARNER_PROFILE, isDefault: !profile }),
+      learnerId ?? createLearnerId(),
+    );
+  } catch (error) {
+    console.error('Error loading profile:', error);
+    return NextResponse.json({ error: 'Failed to load profile' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const parsed = learnerProfileSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid profile', issues: parsed.error.issues }, { status: 400 });
+    }
+
+    const learnerId = readLearnerId(req) ?? createLearnerId();
+    const profile = await getProfileStore().save(learnerId, parsed.data);
+    return setLearnerCookie(NextResponse.json({ profile, isDefault: false }), learnerId);
+  } catch (error) {
+    console.error('Error saving profile:', error);
+    return NextResponse.json({ error: 'Failed to save profile' }, { status: 500 });
+  }
+}
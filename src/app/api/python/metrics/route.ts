@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+import { runnerMetrics } from '../../../../utils/python/runner';
+
+// Queue depth, running slots and warm workers, for dashboards and load tests
+export async function GET() {
+  return NextResponse.json(runnerMetrics());
+}
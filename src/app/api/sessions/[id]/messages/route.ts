@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { z } from 'zod';
+import { readLearnerId } from '../../../../../utils/profiles';
+import { getOwnedSession, getSessionStore, toClientSession } from '../../../../../utils/sessions';
+import { clientMessageSchema } from '../../../../../utils/chatHistory';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Messages are chained one after another under `parentId`, which defaults to the active leaf.
+// Only their text is kept: provider turns and tool outputs are replayed to the model, so they must come from the server.
+const appendMessagesSchema = z.object({
+  parentId: z.string().nullable().optional(),
+  messages: z.array(clientMessageSchema.pick({ role: true, content: true })).min(1),
+});
+
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    const parsed = appendMessagesSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+    }
+
+    const store = getSessionStore();
+    const existing = await getOwnedSession((await params).id, readLearnerId(req));
+    if (!existing) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const { parentId = existing.activeLeafId, messages } = parsed.data;
+    if (parentId && !existing.messages.some(message => message.id === parentId)) {
+      return NextResponse.json({ error: 'Parent message not found' }, { status: 400 });
+    }
+
+    let previousId = parentId;
+    const chained = messages.map(message => {
+      const id = crypto.randomUUID();
+      const linked = { ...message, id, parentId: previousId };
+      previousId = id;
+      return linked;
+    });
+
+    const session = await store.appendMessages(existing.id, chained);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    return NextResponse.json({ session: toClientSession(session) }, { status: 201 });
+  } catch (error) {
+    console.error('Error appending messages:', error);
+    return NextResponse.json({ error: 'Failed to append messages' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readLearnerId } from '../../../../../utils/profiles';
+import { getOwnedSession } from '../../../../../utils/sessions';
+import { pythonSessionVariables, resetPythonSession } from '../../../../../utils/python/sessions';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Variables defined by runPython in this conversation; `running` is false once the interpreter has exited
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getOwnedSession((await params).id, readLearnerId(req));
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    const variables = pythonSessionVariables(session.id);
+    return NextResponse.json({ running: variables !== null, variables: variables ?? [] });
+  } catch (error) {
+    console.error('Error loading Python session:', error);
+    return NextResponse.json({ error: 'Failed to load Python session' }, { status: 500 });
+  }
+}
+
+// Stops the interpreter; the next runPython call starts with an empty namespace
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getOwnedSession((await params).id, readLearnerId(req));
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    resetPythonSession(session.id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error resetting Python session:', error);
+    return NextResponse.json({ error: 'Failed to reset Python session' }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { readLearnerId } from '../../../../utils/profiles';
+import { getOwnedSession, getSessionStore, toClientSession } from '../../../../utils/sessions';
+import { resetPythonSession } from '../../../../utils/python/sessions';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Renames the session and/or switches the branch it reopens on
+const updateSessionSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  activeLeafId: z.string().optional(),
+}).refine(update => update.title !== undefined || update.activeLeafId !== undefined, 'Nothing to update');
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getOwnedSession((await params).id, readLearnerId(req));
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    return NextResponse.json({ session: toClientSession(session) });
+  } catch (error) {
+    console.error('Error loading session:', error);
+    return NextResponse.json({ error: 'Failed to load session' }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const parsed = updateSessionSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+    }
+
+    const store = getSessionStore();
+    const { id } = await params;
+    const { title, activeLeafId } = parsed.data;
+    let session = await getOwnedSession(id, readLearnerId(req));
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    if (activeLeafId !== undefined) {
+      if (!session.messages.some(message => message.id === activeLeafId)) {
+        return NextResponse.json({ error: 'Message not found' }, { status: 400 });
+      }
+      session = await store.setActiveLeaf(id, activeLeafId);
+    }
+    if (title !== undefined) {
+      session = await store.rename(id, title);
+    }
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    return NextResponse.json({ session: toClientSession(session) });
+  } catch (error) {
+    console.error('Error updating session:', error);
+    return NextResponse.json({ error: 'Failed to update session' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = await getOwnedSession(id, readLearnerId(req)) !== null && await getSessionStore().delete(id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    resetPythonSession(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error deleting session:', error);
+    return NextResponse.json({ error: 'Failed to delete session' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createLearnerId, readLearnerId, setLearnerCookie } from '../../../utils/profiles';
+import { getSessionStore } from '../../../utils/sessions';
+
+const createSessionSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+});
+
+// Only the conversations of the student the learner cookie identifies
+export async function GET(req: NextRequest) {
+  try {
+    const learnerId = readLearnerId(req);
+    return NextResponse.json({ sessions: learnerId ? await getSessionStore().list(learnerId) : [] });
+  } catch (error) {
+    console.error('Error listing sessions:', error);
+    return NextResponse.json({ error: 'Failed to list sessions' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const parsed = createSessionSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+    }
+
+    // A student without a cookie yet gets one, since the session belongs to it
+    const learnerId = readLearnerId(req) ?? createLearnerId();
+    const session = await getSessionStore().create(learnerId, parsed.data.title);
+    return setLearnerCookie(NextResponse.json({ session }, { status: 201 }), learnerId);
+  } catch (error) {
+    console.error('Error creating session:', error);
+    return NextResponse.json({ error: 'Failed to create session' }, { status: 500 });
+  }
+}
@@ -1,11 +1,14 @@
 'use client';
 
-import React, { useState, useEffect, useRef, Suspense } from "react";
+import React, { useState, useEffect, useCallback, useRef, Suspense } from "react";
 import dynamic from 'next/dynamic';
 import { MathJaxContext } from 'better-react-mathjax';
-import { BrainCircuit, Paperclip, Mic } from 'lucide-react';
+import { BrainCircuit, Paperclip, Mic, Square } from 'lucide-react';
 import {
+  ChevronLeft,
+  ChevronRight,
   CopyIcon,
+  Pencil,
   CornerDownLeft,
   RefreshCcw,
   Volume2,
@@ -25,6 +28,21 @@ import { Chart } from 'react-chartjs-2';
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
+import SessionsSheet from "@/components/sessions-sheet";
+import TutorModePicker from "@/components/tutor-mode-picker";
+import LearnerProfileSheet from "@/components/learner-profile-sheet";
+import PythonSessionSheet from "@/components/python-session-sheet";
+import VerificationBadge from "@/components/verification-badge";
+import StepList, { INITIAL_STEP_PROGRESS, StepProgress } from "@/components/step-list";
+import HintLadder from "@/components/hint-ladder";
+import PythonFigures from "@/components/python-figures";
+import CodeCell from "@/components/code-cell";
+import { DEFAULT_TUTOR_MODE, TUTOR_MODES, TutorMode, tutorModes } from "@/utils/tutorModes";
+import { HINT_LEVELS, QUIZ_ANSWER_PREFIX } from "@/utils/hints/types";
+import { readChatEvents } from "@/utils/chatEvents";
+import type { Verification } from "@/utils/verification";
+import type { StepSolution } from "@/utils/tools/showSteps";
+import { branchPath, latestLeaf, siblingsOf } from "@/utils/sessions/tree";
 
 const MathJax = dynamic(() => import('better-react-mathjax').then(mod => mod.MathJax), {
   ssr: false,
@@ -41,6 +59,49 @@ const Mermaid = dynamic(() => import('react-mermaid2'), {
   loading: () => <div className="animate-pulse bg-gray-200 dark:bg-gray-700 h-24 w-full rounded" />,
 });
 
+// A node in the conversation tree, as stored by the session API
+type Message = {
+  id: string;
+  parentId: string | null;
+  role: string;
+  content: string;
+  createdAt: string;
+  functionOutputs?: { name: string; kind: string; output: any }[];
+  activeTool?: string;
+  historySummarized?: boolean;
+  status?: 'cancelled';
+  verification?: Verification;
+  hintsUsed?: number;
+  // Only exists in this tab, e.g. an error bubble or a question the server has not acknowledged yet
+  local?: boolean;
+};
+
+// What /api/chat answers: a new question under `parentId`, or another reply to a stored question
+type ReplyRequest = { message: string; parentId: string | null } | { regenerate: string };
+
+// New questions attach below the last message the server knows about
+const lastStoredId = (path: Message[]) => [...path].reverse().find(message => !message.local)?.id ?? null;
+
+const latestQuiz = (message?: Message) =>
+  [...(message?.functionOutputs ?? [])].reverse().find(({ kind }) => kind === 'quiz')?.output;
+
+// The message that records the hints shown under `message`, which the server takes the problem from:
+// the message itself when it poses a quiz, the quiz the student just answered, or else the reply to their question
+const hintAnchor = (message: Message, path: Message[], offersHints: boolean) => {
+  if (latestQuiz(message)) return message;
+
+  const question = path.find(candidate => candidate.id === message.parentId);
+  if (!question) return null;
+  if (question.content.startsWith(QUIZ_ANSWER_PREFIX)) {
+    const quizMessage = path.find(candidate => candidate.id === question.parentId);
+    return quizMessage && latestQuiz(quizMessage) ? quizMessage : null;
+  }
+  return offersHints ? message : null;
+};
+
+const SESSION_STORAGE_KEY = 'math-chat-session';
+const MODE_STORAGE_KEY = 'math-chat-mode';
+
 const ChatAiIcons = [
   {
     icon: CopyIcon,
@@ -88,16 +149,33 @@ const preprocessMermaidCode = (code: string) => {
   return processedCode;
 };
 
+// Defined outside Home so its children, such as the hint ladder, keep their state across renders
+const ChatBubbleMessage = ({ children }) => (
+  <div>
+    {children}
+  </div>
+);
+
 export default function Home() {
   const [isGenerating, setIsGenerating] = useState(false);
-  const [messages, setMessages] = useState<{ role: string; content: string; functionOutput?: any }[]>([]);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [leafId, setLeafId] = useState<string | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  // Keyed by message id and output index
+  const [stepProgress, setStepProgress] = useState<Record<string, StepProgress>>({});
+  const [expandedCells, setExpandedCells] = useState<Record<string, boolean>>({});
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [activeQuiz, setActiveQuiz] = useState(null);
   const [quizAnswer, setQuizAnswer] = useState('');
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [mode, setMode] = useState<TutorMode>(DEFAULT_TUTOR_MODE);
+
+  const visibleMessages = branchPath(messages, leafId);
 
   const messagesRef = useRef(null);
   const formRef = useRef(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     if (messagesRef.current) {
@@ -105,81 +183,245 @@ export default function Home() {
     }
   }, [messages]);
 
-  const handleInputChange = (e) => {
-    setInput(e.target.value);
+  const handleModeChange = (nextMode: TutorMode) => {
+    setMode(nextMode);
+    localStorage.setItem(MODE_STORAGE_KEY, nextMode);
   };
 
-  const onSubmit = async (e) => {
-    e.preventDefault();
-    if (!input.trim()) return;
+  const startNewSession = useCallback(() => {
+    setSessionId(null);
+    setMessages([]);
+    setLeafId(null);
+    setEditingMessage(null);
+    setActiveQuiz(null);
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+  }, []);
 
-    setIsGenerating(true);
-    setIsLoading(true);
+  const loadSession = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/sessions/${id}`);
+      if (!response.ok) throw new Error('Failed to load session');
 
-    const userMessage = { role: 'user', content: input };
-    console.log('User message:', userMessage);
-    setMessages(prev => [...prev, userMessage]);
-    setInput('');
+      const data = await response.json();
+      setSessionId(id);
+      setMessages(data.session.messages);
+      setLeafId(data.session.activeLeafId);
+      setEditingMessage(null);
+      localStorage.setItem(SESSION_STORAGE_KEY, id);
+    } catch (error) {
+      console.error('Error:', error);
+      startNewSession();
+    }
+  }, [startNewSession]);
+
+  // Reopen the conversation and tutoring style from the last visit
+  useEffect(() => {
+    const storedSessionId = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (storedSessionId) {
+      loadSession(storedSessionId);
+    }
+
+    const storedMode = localStorage.getItem(MODE_STORAGE_KEY);
+    if (TUTOR_MODES.includes(storedMode as TutorMode)) {
+      setMode(storedMode as TutorMode);
+    }
+  }, [loadSession]);
+
+  const handleSessionDeleted = (id: string) => {
+    if (id === sessionId) {
+      startNewSession();
+    }
+  };
+
+  // Creates the server-side session lazily, on the first message of a conversation
+  const ensureSession = async () => {
+    if (sessionId) return sessionId;
+
+    const response = await fetch('/api/sessions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({}),
+    });
+    if (!response.ok) throw new Error('Failed to create session');
+
+    const data = await response.json();
+    setSessionId(data.session.id);
+    localStorage.setItem(SESSION_STORAGE_KEY, data.session.id);
+    return data.session.id;
+  };
+
+  const handleInputChange = (e) => {
+    setInput(e.target.value);
+  };
+
+  // Streams a reply to `questionId` into the message tree; `body` tells the server which question and branch
+  const streamAssistantReply = async (body: ReplyRequest, questionId: string) => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    let userId = questionId;
+    // Replaced by the stored ids once the server sends them
+    let assistantId = `local-${crypto.randomUUID()}`;
+    let stored = false;
+    let started = false;
+    const updateAssistant = (update: (message: Message) => Message) => {
+      if (!started) {
+        started = true;
+        setIsLoading(false);
+        const reply: Message = { id: assistantId, parentId: userId, role: 'assistant', content: '', createdAt: new Date().toISOString() };
+        setMessages(prev => [...prev, update(stored ? reply : { ...reply, local: true })]);
+        setLeafId(assistantId);
+      } else {
+        setMessages(prev => prev.map(message => (message.id === assistantId ? update(message) : message)));
+      }
+    };
 
     try {
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ messages: [...messages, userMessage] }),
+        body: JSON.stringify({ sessionId: await ensureSession(), ...body, mode, stream: true }),
+        signal: abortController.signal,
       });
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         throw new Error('Failed to fetch response');
       }
 
-      const data = await response.json();
-      const assistantMessage = { role: 'assistant', content: data.response, functionOutput: data.functionOutput };
-      console.log('Assistant message:', assistantMessage);
-      setMessages(prev => [...prev, assistantMessage]);
+      for await (const event of readChatEvents(response.body)) {
+        switch (event.type) {
+          case 'start': {
+            const pendingId = userId;
+            userId = event.userMessageId;
+            assistantId = event.assistantMessageId;
+            stored = true;
+            setMessages(prev => prev.map(message => (
+              message.id === pendingId ? { ...message, id: userId, local: undefined } : message
+            )));
+            setLeafId(current => (current === pendingId ? userId : current));
+            break;
+          }
+          case 'summary':
+            updateAssistant(message => ({ ...message, historySummarized: true }));
+            break;
+          case 'text':
+            updateAssistant(message => ({ ...message, content: message.content + event.delta }));
+            break;
+          case 'tool-call':
+            updateAssistant(message => ({ ...message, activeTool: event.name }));
+            break;
+          case 'tool-result':
+            updateAssistant(message => ({
+              ...message,
+              activeTool: undefined,
+              functionOutputs: [...(message.functionOutputs ?? []), { name: event.name, kind: event.kind, output: event.output }],
+            }));
+            break;
+          case 'verification':
+            updateAssistant(message => ({ ...message, verification: event.verification }));
+            break;
+          case 'done':
+            break;
+          case 'error':
+            throw new Error(event.message);
+        }
+      }
     } catch (error) {
-      console.error('Error:', error);
-      // Optionally show error message to user
-      const errorMessage = { role: 'assistant', content: 'Sorry, I encountered an error processing your request.' };
-      console.log('Error message:', errorMessage);
-      setMessages(prev => [...prev, errorMessage]);
+      if (abortController.signal.aborted) {
+        // The server records the partial reply as cancelled; mirror that locally
+        updateAssistant(message => ({ ...message, activeTool: undefined, status: 'cancelled' }));
+      } else {
+        console.error('Error:', error);
+        updateAssistant(message => ({
+          ...message,
+          activeTool: undefined,
+          content: 'Sorry, I encountered an error processing your request.',
+        }));
+      }
+    } finally {
+      abortControllerRef.current = null;
+    }
+  };
+
+  const stopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Adds the question under `parentId` and streams its answer; an earlier parent forks a new branch
+  const askQuestion = async (content: string, parentId: string | null) => {
+    const userMessage: Message = {
+      id: `local-${crypto.randomUUID()}`,
+      parentId,
+      role: 'user',
+      content,
+      createdAt: new Date().toISOString(),
+      local: true,
+    };
+    setMessages(prev => [...prev, userMessage]);
+    setLeafId(userMessage.id);
+
+    setIsGenerating(true);
+    setIsLoading(true);
+    try {
+      await streamAssistantReply({ message: content, parentId }, userMessage.id);
     } finally {
       setIsGenerating(false);
       setIsLoading(false);
     }
   };
 
-  const reload = async () => {
-    if (messages.length === 0) return;
-    
+  const onSubmit = async (e) => {
+    e.preventDefault();
+    if (!input.trim()) return;
+
+    const parentId = editingMessage ? editingMessage.parentId : lastStoredId(visibleMessages);
+    const content = input;
+    setInput('');
+    setEditingMessage(null);
+    await askQuestion(content, parentId);
+  };
+
+  // Answers the question behind `message` again, as a sibling reply with the same context
+  const regenerate = async (message: Message) => {
+    const question = messages.find(candidate => candidate.id === message.parentId);
+    if (!question || question.local) return;
+
+    setLeafId(question.id);
     setIsGenerating(true);
-    const lastUserMessage = [...messages].reverse().find(m => m.role === 'user');
-    
-    if (lastUserMessage) {
-      try {
-        const response = await fetch('/api/chat', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ messages: [lastUserMessage] }),
-        });
-
-        if (!response.ok) {
-          throw new Error('Failed to fetch response');
-        }
+    setIsLoading(true);
+    try {
+      await streamAssistantReply({ regenerate: question.id }, question.id);
+    } finally {
+      setIsGenerating(false);
+      setIsLoading(false);
+    }
+  };
 
-        const data = await response.json();
-        setMessages(prev => {
-          const newMessages = [...prev];
-          newMessages[newMessages.length - 1] = { 
-            role: 'assistant', 
-            content: data.response 
-          };
-          return newMessages;
-        });
-      } catch (error) {
-        console.error('Error:', error);
-      }
+  // Switches to the previous or next alternative of `message` and the newest branch below it
+  const showSibling = (message: Message, offset: number) => {
+    const siblings = siblingsOf(messages, message);
+    const target = siblings[siblings.indexOf(message) + offset];
+    if (!target) return;
+
+    const nextLeafId = latestLeaf(messages, target.id);
+    setLeafId(nextLeafId);
+    if (sessionId && !messages.find(candidate => candidate.id === nextLeafId)?.local) {
+      fetch(`/api/sessions/${sessionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ activeLeafId: nextLeafId }),
+      }).catch(error => console.error('Error:', error));
     }
-    setIsGenerating(false);
+  };
+
+  const startEditing = (message: Message) => {
+    setEditingMessage(message);
+    setInput(message.content);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setInput('');
   };
 
   const onKeyDown = (e) => {
@@ -191,55 +433,43 @@ export default function Home() {
     }
   };
 
-  const handleActionClick = async (action, messageIndex) => {
+  const handleActionClick = async (action: string, message: Message) => {
     if (action === "Refresh") {
-      setIsGenerating(true);
-      try {
-        await reload();
-      } finally {
-        setIsGenerating(false);
-      }
+      await regenerate(message);
     }
 
     if (action === "Copy") {
-      const message = messages[messageIndex];
-      if (message && message.role === "assistant") {
+      if (message.role === "assistant") {
         navigator.clipboard.writeText(message.content);
       }
     }
   };
 
-  const handleQuizSubmit = async () => {
-    if (!activeQuiz || !quizAnswer) return;
+  const askWhyStep = (step: StepSolution["steps"][number], index: number) => {
+    askQuestion(
+      `Why does step ${index + 1} ("${step.title}") follow? Explain the justification "${step.justification}" in more detail.`,
+      lastStoredId(visibleMessages),
+    );
+  };
 
-    const userMessage = {
-      role: 'user',
-      content: `My answer to the quiz "${activeQuiz.question}" is: ${quizAnswer}`,
-      isQuizAnswer: true,
-    };
+  const recordHintsUsed = (messageId: string, count: number) => {
+    setMessages(prev => prev.some(message => message.id === messageId && message.hintsUsed !== count)
+      ? prev.map(message => (message.id === messageId ? { ...message, hintsUsed: count } : message))
+      : prev);
+  };
 
-    setMessages(prev => [...prev, userMessage]);
-    setIsGenerating(true);
+  const handleQuizSubmit = async () => {
+    if (!activeQuiz || !quizAnswer) return;
 
+    // The tutor holds back the answer until every hint has been used, so it needs the count
+    const quizMessage = [...visibleMessages].reverse().find(message => latestQuiz(message)?.question === activeQuiz.question);
+    const hintsUsed = quizMessage?.hintsUsed ?? 0;
     try {
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ messages: [...messages, userMessage] }),
-      });
-
-      if (!response.ok) throw new Error('Failed to fetch response');
-
-      const data = await response.json();
-      setMessages(prev => [...prev, {
-        role: 'assistant',
-        content: data.response,
-        functionOutput: data.functionOutput
-      }]);
-    } catch (error) {
-      console.error('Error:', error);
+      await askQuestion(
+        `${QUIZ_ANSWER_PREFIX} "${activeQuiz.question}" is: ${quizAnswer} (hints used: ${hintsUsed} of ${HINT_LEVELS.length})`,
+        lastStoredId(visibleMessages),
+      );
     } finally {
-      setIsGenerating(false);
       setActiveQuiz(null);
       setQuizAnswer('');
     }
@@ -250,6 +480,12 @@ export default function Home() {
 
     return (
       <div className="mt-4 p-4 border rounded-lg bg-gray-50 dark:bg-gray-800">
+        {(quiz.difficulty || quiz.topic) && (
+          <span className="text-xs uppercase tracking-wide text-muted-foreground">
+            {quiz.difficulty ?? quiz.topic}
+            {quiz.seed !== undefined && ` · seed ${quiz.seed}`}
+          </span>
+        )}
         <h3 className="font-semibold mb-3">{quiz.question}</h3>
         {quiz.type === 'mcq' ? (
           <RadioGroup value={quizAnswer} onValueChange={setQuizAnswer}>
@@ -280,12 +516,13 @@ export default function Home() {
     );
   };
 
-  const MessageContent = ({ content, functionOutput }) => {
+  const MessageContent = ({ messageId, content, functionOutputs, activeTool }: Pick<Message, 'content' | 'functionOutputs' | 'activeTool'> & { messageId: string }) => {
     useEffect(() => {
-      if (functionOutput?.quiz) {
-        setActiveQuiz(functionOutput.quiz);
+      const quizOutput = [...(functionOutputs ?? [])].reverse().find(({ kind }) => kind === 'quiz');
+      if (quizOutput) {
+        setActiveQuiz(quizOutput.output);
       }
-    }, [functionOutput]);
+    }, [functionOutputs]);
 
     return (
       <MathJax dynamic>
@@ -327,38 +564,22 @@ export default function Home() {
             }
           })
         ) : null}
-        {functionOutput?.mermaid && (
-          <div className="my-4">
-            <ErrorBoundary fallback={<div className="text-red-500">Failed to render diagram</div>}>
-              <Suspense fallback={<div className="animate-pulse bg-gray-200 dark:bg-gray-700 h-24 w-full rounded" />}>
-                <Mermaid 
-                  chart={preprocessMermaidCode(functionOutput.mermaid)}
-                  config={{
-                    startOnLoad: true,
-                    securityLevel: 'strict',
-                    theme: 'default'
-                  }}
-                />
-              </Suspense>
-            </ErrorBoundary>
-          </div>
-        )}
-        {functionOutput && (
-          <>
-            {functionOutput.chart && (
+        {functionOutputs?.map(({ kind, output }, index) => (
+          <React.Fragment key={index}>
+            {kind === 'chart' && (
               <Chart
-                type={functionOutput.chart.type}
-                data={functionOutput.chart.data}
-                options={functionOutput.chart.options}
+                type={output.type}
+                data={output.data}
+                options={output.options}
                 className="mt-2"
               />
             )}
-            {functionOutput.mermaid && (
+            {kind === 'mermaid' && (
               <div className="my-4">
                 <ErrorBoundary fallback={<div className="text-red-500">Failed to render diagram</div>}>
                   <Suspense fallback={<div className="animate-pulse bg-gray-200 dark:bg-gray-700 h-24 w-full rounded" />}>
                     <Mermaid 
-                      chart={preprocessMermaidCode(functionOutput.mermaid)}
+                      chart={preprocessMermaidCode(output)}
                       config={{
                         startOnLoad: true,
                         securityLevel: 'strict',
@@ -369,24 +590,49 @@ export default function Home() {
                 </ErrorBoundary>
               </div>
             )}
-            {functionOutput.quiz && <QuizComponent quiz={functionOutput.quiz} />}
-          </>
+            {kind === 'execution' && (
+              <CodeCell
+                result={output}
+                expanded={expandedCells[`${messageId}:${index}`] ?? false}
+                onExpandedChange={expanded => setExpandedCells(prev => ({ ...prev, [`${messageId}:${index}`]: expanded }))}
+              />
+            )}
+            {/* Runs stored before code cells existed have kind 'text' */}
+            {(kind === 'execution' || kind === 'text') && output?.figures && <PythonFigures figures={output.figures} />}
+            {kind === 'quiz' && <QuizComponent quiz={output} />}
+            {kind === 'steps' && (
+              <StepList
+                solution={output}
+                progress={stepProgress[`${messageId}:${index}`] ?? INITIAL_STEP_PROGRESS}
+                onProgressChange={progress => setStepProgress(prev => ({ ...prev, [`${messageId}:${index}`]: progress }))}
+                onAskWhy={askWhyStep}
+                disabled={isGenerating}
+              />
+            )}
+            {kind === 'math' && (
+              <div className="mt-2 rounded-lg border bg-gray-50 p-3 dark:bg-gray-800">
+                <div className="text-xs uppercase tracking-wide text-muted-foreground">
+                  {output.operation}: <code>{output.expression}</code>
+                </div>
+                <div className="overflow-x-auto">{`$$${output.latex}$$`}</div>
+              </div>
+            )}
+          </React.Fragment>
+        ))}
+        {activeTool && (
+          <div className="mt-2 text-sm italic text-muted-foreground animate-pulse">
+            Running {activeTool}...
+          </div>
         )}
       </MathJax>
     );
   };
 
-  const ChatBubbleMessage = ({ children }) => (
-    <div>
-      {children}
-    </div>
-  );
-
   return (
     <MathJaxContext config={config}>
       <main className="flex h-screen w-full flex-col items-center mx-auto py-6">
         <ChatMessageList ref={messagesRef}>
-          {messages.length === 0 ? (
+          {visibleMessages.length === 0 ? (
             <div className="h-full flex flex-col items-center justify-center">
               <BrainCircuit className="w-16 h-16 text-blue-500 mb-4" />
               <h1 className="text-2xl font-bold mb-2">Welcome to Math Chat</h1>
@@ -395,11 +641,16 @@ export default function Home() {
               </p>
             </div>
           ) : (
-            messages.map((message, index) => {
-              console.log(`Message ${index}:`, message);
+            visibleMessages.map((message, index) => {
+              const siblings = siblingsOf(messages, message);
+              const siblingIndex = siblings.indexOf(message);
+              const isLastReply = message.role === "assistant" && visibleMessages.length - 1 === index;
+              const hintsAnchor = isLastReply && !isGenerating
+                ? hintAnchor(message, visibleMessages, tutorModes[mode].offersHints)
+                : null;
               return (
                 <ChatBubble
-                  key={index}
+                  key={message.id}
                   variant={message.role === "user" ? "sent" : "received"}
                 >
                   <ChatBubbleAvatar
@@ -407,33 +658,74 @@ export default function Home() {
                     fallback={message.role === "user" ? "👨🏽" : "🤖"}
                   />
                   <ChatBubbleMessage>
-                    <MessageContent content={message.content} functionOutput={message.functionOutput} />
-                    {message.role === "assistant" && messages.length - 1 === index && (
-                      <div className="flex items-center mt-1.5 gap-1">
-                        {!isGenerating && (
-                          <>
-                            {ChatAiIcons.map((icon, iconIndex) => {
-                              const Icon = icon.icon;
-                              return (
-                                <ChatBubbleAction
-                                  variant="outline"
-                                  className="size-5"
-                                  key={iconIndex}
-                                  icon={<Icon className="size-3" />}
-                                  onClick={() => handleActionClick(icon.label, index)}
-                                />
-                              );
-                            })}
-                          </>
-                        )}
+                    {message.historySummarized && (
+                      <div className="mb-2 text-xs italic text-muted-foreground">
+                        Earlier messages were summarized to keep this conversation within the context window.
                       </div>
                     )}
+                    <MessageContent messageId={message.id} content={message.content} functionOutputs={message.functionOutputs} activeTool={message.activeTool} />
+                    {message.status === 'cancelled' && (
+                      <div className="mt-1 text-xs italic text-muted-foreground">Stopped</div>
+                    )}
+                    <div className="flex items-center mt-1.5 gap-1">
+                      {message.verification && <VerificationBadge verification={message.verification} />}
+                      {siblings.length > 1 && (
+                        <div className="flex items-center text-xs text-muted-foreground">
+                          <ChatBubbleAction
+                            className="size-5"
+                            icon={<ChevronLeft className="size-3" />}
+                            disabled={isGenerating || siblingIndex === 0}
+                            onClick={() => showSibling(message, -1)}
+                          />
+                          <span>{siblingIndex + 1}/{siblings.length}</span>
+                          <ChatBubbleAction
+                            className="size-5"
+                            icon={<ChevronRight className="size-3" />}
+                            disabled={isGenerating || siblingIndex === siblings.length - 1}
+                            onClick={() => showSibling(message, 1)}
+                          />
+                        </div>
+                      )}
+                      {message.role === "user" && !message.local && !isGenerating && (
+                        <ChatBubbleAction
+                          variant="outline"
+                          className="size-5"
+                          icon={<Pencil className="size-3" />}
+                          onClick={() => startEditing(message)}
+                        />
+                      )}
+                      {isLastReply && !isGenerating && (
+                        <>
+                          {ChatAiIcons.map((icon, iconIndex) => {
+                            const Icon = icon.icon;
+                            return (
+                              <ChatBubbleAction
+                                variant="outline"
+                                className="size-5"
+                                key={iconIndex}
+                                icon={<Icon className="size-3" />}
+                                onClick={() => handleActionClick(icon.label, message)}
+                              />
+                            );
+                          })}
+                        </>
+                      )}
+                    </div>
+                    {sessionId && hintsAnchor && !hintsAnchor.local && (
+                      <HintLadder
+                        key={hintsAnchor.id}
+                        sessionId={sessionId}
+                        messageId={hintsAnchor.id}
+                        hintsUsed={hintsAnchor.hintsUsed ?? 0}
+                        onHintsUsed={count => recordHintsUsed(hintsAnchor.id, count)}
+                      />
+                    )}
                   </ChatBubbleMessage>
                 </ChatBubble>
               );
             })
           )}
-          {isGenerating && (
+          {isLoading && (
             <ChatBubble variant="received">
               <ChatBubbleAvatar src="" fallback="🤖" />
               <ChatBubbleMessage isLoading />
@@ -447,6 +739,14 @@ export default function Home() {
             onSubmit={onSubmit}
             className="relative rounded-lg border bg-background focus-within:ring-1 focus-within:ring-ring"
           >
+            {editingMessage && (
+              <div className="flex items-center justify-between px-3 pt-2 text-xs text-muted-foreground">
+                <span>Editing an earlier message; sending starts a new branch.</span>
+                <Button type="button" variant="ghost" size="sm" className="h-6" onClick={cancelEditing}>
+                  Cancel
+                </Button>
+              </div>
+            )}
             <ChatInput
               value={input}
               onKeyDown={onKeyDown}
@@ -455,6 +755,15 @@ export default function Home() {
               className="min-h-12 resize-none rounded-lg bg-background border-0 p-3 shadow-none focus-visible:ring-0"
             />
             <div className="flex items-center p-3 pt-0">
+              <SessionsSheet
+                activeSessionId={sessionId}
+                onSelect={loadSession}
+                onNew={startNewSession}
+                onDeleted={handleSessionDeleted}
+              />
+              <TutorModePicker mode={mode} onModeChange={handleModeChange} disabled={isGenerating} />
+              <LearnerProfileSheet />
+              <PythonSessionSheet sessionId={sessionId} disabled={isGenerating} />
               <Button variant="ghost" size="icon">
                 <Paperclip className="size-4" />
                 <span className="sr-only">Attach file</span>
@@ -463,15 +772,28 @@ export default function Home() {
                 <Mic className="size-4" />
                 <span className="sr-only">Use Microphone</span>
               </Button>
-              <Button
-                disabled={!input || isLoading}
-                type="submit"
-                size="sm"
-                className="ml-auto gap-1.5"
-              >
-                Send Message
-                <CornerDownLeft className="size-3.5" />
-              </Button>
+              {isGenerating ? (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="ml-auto gap-1.5"
+                  onClick={stopGenerating}
+                >
+                  Stop
+                  <Square className="size-3.5" />
+                </Button>
+              ) : (
+                <Button
+                  disabled={!input || isLoading}
+                  type="submit"
+                  size="sm"
+                  className="ml-auto gap-1.5"
+                >
+                  Send Message
+                  <CornerDownLeft className="size-3.5" />
+                </Button>
+              )}
             </div>
           </form>
         </div>
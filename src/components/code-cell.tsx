@@ -0,0 +1,70 @@
+"use client";
+import React from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import CodeDisplayBlock from "./code-display-block";
+import { ExecutionResult, executionSucceeded } from "@/utils/python/types";
+
+interface CodeCellProps {
+  result: ExecutionResult;
+  // Controlled so the cell stays open while the chat re-renders its messages
+  expanded: boolean;
+  onExpandedChange: (expanded: boolean) => void;
+}
+
+function formatDuration(milliseconds: number) {
+  return milliseconds < 1000 ? `${milliseconds} ms` : `${(milliseconds / 1000).toFixed(1)} s`;
+}
+
+function status(result: ExecutionResult) {
+  if (result.timedOut) return "Timed out";
+  if (result.error) return result.exitCode === null && result.wallTimeMs === 0 ? "Not run" : "Stopped";
+  return result.exitCode === 0 ? "Ran" : "Failed";
+}
+
+// A runPython call as a notebook-style cell: the code on demand, then output and warnings kept apart
+export default function CodeCell({ result, expanded, onExpandedChange }: CodeCellProps) {
+  const succeeded = executionSucceeded(result);
+  const details = [
+    formatDuration(result.wallTimeMs),
+    result.peakMemoryMb !== undefined && `${result.peakMemoryMb} MB peak`,
+    result.exitCode !== null && `exit code ${result.exitCode}`,
+    result.truncated && "output truncated",
+  ].filter(Boolean);
+
+  return (
+    // MathJax would otherwise typeset dollar signs in the program and its output
+    <div className="tex2jax_ignore mt-2 overflow-hidden rounded-lg border text-sm">
+      <button
+        type="button"
+        className="flex w-full items-center gap-2 bg-muted/50 px-3 py-1.5 text-left text-xs"
+        onClick={() => onExpandedChange(!expanded)}
+      >
+        {expanded ? <ChevronDown className="size-3.5" /> : <ChevronRight className="size-3.5" />}
+        <span className={`font-medium ${succeeded ? "text-green-700 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}>
+          {status(result)}
+        </span>
+        <span className="text-muted-foreground">Python · {details.join(" · ")}</span>
+        <span className="ml-auto text-muted-foreground">{expanded ? "Hide code" : "Show code"}</span>
+      </button>
+      {expanded && (
+        <div className="border-t">
+          <CodeDisplayBlock code={result.code} lang="python" />
+        </div>
+      )}
+      {result.stdout && (
+        <pre className="overflow-x-auto whitespace-pre-wrap border-t px-3 py-2 font-mono text-xs">{result.stdout}</pre>
+      )}
+      {result.stderr && (
+        <div className={`border-t px-3 py-2 ${succeeded ? "bg-amber-50 dark:bg-amber-950/30" : "bg-red-50 dark:bg-red-950/30"}`}>
+          <div className="mb-1 text-xs font-medium text-muted-foreground">{succeeded ? "Warnings" : "Error output"}</div>
+          <pre className="overflow-x-auto whitespace-pre-wrap font-mono text-xs">{result.stderr}</pre>
+        </div>
+      )}
+      {result.error && (
+        <div className="whitespace-pre-wrap border-t bg-red-50 px-3 py-2 text-xs text-red-600 dark:bg-red-950/30 dark:text-red-400">
+          {result.error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import dynamic from "next/dynamic";
+import { Lightbulb } from "lucide-react";
+import { Button } from "./ui/button";
+import { Hint, HINT_LEVELS, HintLevel } from "@/utils/hints/types";
+
+const MathJax = dynamic(() => import("better-react-mathjax").then(mod => mod.MathJax), {
+  ssr: false,
+  loading: () => <div className="animate-pulse bg-gray-200 dark:bg-gray-700 h-6 w-24 rounded" />,
+});
+
+const levelLabels: Record<HintLevel, string> = {
+  nudge: "Nudge",
+  strategy: "Strategy",
+  partial: "Partial working",
+  solution: "Full solution",
+};
+
+interface HintLadderProps {
+  sessionId: string;
+  // Message the hints are recorded on; the server takes the problem from it
+  messageId: string;
+  hintsUsed: number;
+  onHintsUsed: (count: number) => void;
+  disabled?: boolean;
+}
+
+// Unlocks the ladder one hint at a time; hints unlocked earlier are fetched again from the server cache
+export default function HintLadder({ sessionId, messageId, hintsUsed, onHintsUsed, disabled }: HintLadderProps) {
+  const [hints, setHints] = useState<Hint[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // The latest props, so `load` and the restoring effect only change with the message
+  const latest = useRef({ hintsUsed, onHintsUsed });
+  useEffect(() => {
+    latest.current = { hintsUsed, onHintsUsed };
+  });
+
+  const load = useCallback(async (count: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/hints", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ count, sessionId, messageId }),
+      });
+      if (!response.ok) throw new Error("Failed to load hints");
+
+      const data = await response.json();
+      setHints(data.hints);
+      // Restoring the ladder returns the count the page already has
+      if (data.hintsUsed !== latest.current.hintsUsed) latest.current.onHintsUsed(data.hintsUsed);
+    } catch (error) {
+      console.error("Error:", error);
+      setError("Could not load a hint. Try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, messageId]);
+
+  // Only restore on mount or when the message changes; unlocking updates `hintsUsed` itself
+  useEffect(() => {
+    if (latest.current.hintsUsed > 0) {
+      load(latest.current.hintsUsed);
+    }
+  }, [load]);
+
+  const next = HINT_LEVELS[hints.length];
+
+  return (
+    <div className="mt-2 space-y-2">
+      {hints.length > 0 && (
+        <MathJax dynamic>
+          <ol className="space-y-1.5 rounded-lg border border-amber-500/30 bg-amber-50 p-3 text-sm dark:bg-amber-950/30">
+            {hints.map((hint, index) => (
+              <li key={index}>
+                <span className="font-semibold">{levelLabels[hint.level]}: </span>
+                {hint.text}
+              </li>
+            ))}
+          </ol>
+        </MathJax>
+      )}
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        {next && (
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className="h-7 gap-1 px-2 text-xs"
+            disabled={disabled || loading}
+            onClick={() => load(hints.length + 1)}
+          >
+            <Lightbulb className="size-3.5" />
+            {loading ? "Loading hint..." : hints.length === 0 ? "Stuck? Get a hint" : `Next hint: ${levelLabels[next]}`}
+          </Button>
+        )}
+        {hintsUsed > 0 && <span>{hintsUsed} of {HINT_LEVELS.length} hints used</span>}
+        {error && <span className="text-red-500">{error}</span>}
+      </div>
+    </div>
+  );
+}
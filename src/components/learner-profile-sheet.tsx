@@ -0,0 +1,202 @@
+"use client";
+import React from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Settings } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { RadioGroup, RadioGroupItem } from "./ui/radio-group";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "./ui/form";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "./ui/sheet";
+import {
+  CURRICULA,
+  curriculumLabels,
+  DECIMAL_SEPARATORS,
+  decimalSeparatorLabels,
+  DEFAULT_LEARNER_PROFILE,
+  DERIVATIVE_NOTATIONS,
+  derivativeNotationLabels,
+  GRADE_BANDS,
+  gradeBandLabels,
+  LearnerProfile,
+  learnerProfileSchema,
+} from "@/utils/learnerProfile";
+
+// Radio list for one enum-valued profile field
+function OptionGroup({ value, onChange, options, labels }: {
+  value: string;
+  onChange: (value: string) => void;
+  options: readonly string[];
+  labels: Record<string, string>;
+}) {
+  return (
+    <RadioGroup value={value} onValueChange={onChange} className="grid-cols-2">
+      {options.map((option) => (
+        <FormItem key={option} className="flex items-center space-x-2 space-y-0">
+          <FormControl>
+            <RadioGroupItem value={option} />
+          </FormControl>
+          <FormLabel className="font-normal">{labels[option]}</FormLabel>
+        </FormItem>
+      ))}
+    </RadioGroup>
+  );
+}
+
+export default function LearnerProfileSheet() {
+  const [open, setOpen] = React.useState(false);
+  const form = useForm<LearnerProfile>({
+    resolver: zodResolver(learnerProfileSchema),
+    defaultValues: DEFAULT_LEARNER_PROFILE,
+  });
+
+  // Fetching also issues the learner cookie that profiles are keyed by
+  React.useEffect(() => {
+    const loadProfile = async () => {
+      try {
+        const response = await fetch("/api/profile");
+        if (!response.ok) throw new Error("Failed to load profile");
+        const data = await response.json();
+        form.reset(data.profile);
+      } catch (error) {
+        console.error("Error:", error);
+      }
+    };
+    loadProfile();
+  }, [form]);
+
+  const onSubmit = async (profile: LearnerProfile) => {
+    try {
+      const response = await fetch("/api/profile", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(profile),
+      });
+      if (!response.ok) throw new Error("Failed to save profile");
+      form.reset((await response.json()).profile);
+      toast.success("Learner profile saved");
+      setOpen(false);
+    } catch (error) {
+      console.error("Error:", error);
+      toast.error("Could not save your profile");
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button type="button" variant="ghost" size="icon">
+          <Settings className="size-4" />
+          <span className="sr-only">Learner profile</span>
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Learner profile</SheetTitle>
+          <SheetDescription>Explanations and quiz difficulty adapt to these settings.</SheetDescription>
+        </SheetHeader>
+        <Form {...form}>
+          <form
+            onSubmit={(e) => {
+              // The sheet is portalled out of the chat form, but React still bubbles submit events to it
+              e.stopPropagation();
+              form.handleSubmit(onSubmit)(e);
+            }}
+            className="mt-6 space-y-6"
+          >
+            <FormField
+              control={form.control}
+              name="gradeBand"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Level</FormLabel>
+                  <OptionGroup value={field.value} onChange={field.onChange} options={GRADE_BANDS} labels={gradeBandLabels} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="curriculum"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Curriculum</FormLabel>
+                  <OptionGroup value={field.value} onChange={field.onChange} options={CURRICULA} labels={curriculumLabels} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="derivativeNotation"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Derivative notation</FormLabel>
+                  <OptionGroup
+                    value={field.value}
+                    onChange={field.onChange}
+                    options={DERIVATIVE_NOTATIONS}
+                    labels={derivativeNotationLabels}
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="decimalSeparator"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Decimals</FormLabel>
+                  <OptionGroup
+                    value={field.value}
+                    onChange={field.onChange}
+                    options={DECIMAL_SEPARATORS}
+                    labels={decimalSeparatorLabels}
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="language"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Language</FormLabel>
+                  <FormControl>
+                    <Input placeholder="English" {...field} />
+                  </FormControl>
+                  <FormDescription>The tutor replies in this language.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <SheetFooter>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                Save profile
+              </Button>
+            </SheetFooter>
+          </form>
+        </Form>
+      </SheetContent>
+    </Sheet>
+  );
+}
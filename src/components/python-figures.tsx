@@ -0,0 +1,31 @@
+"use client";
+import React from "react";
+import { Download } from "lucide-react";
+import { Button } from "./ui/button";
+import { Figure, FIGURE_MIME_TYPES } from "@/utils/python/figures";
+
+// Matplotlib figures from a runPython call, each with a button to save it
+export default function PythonFigures({ figures }: { figures: Figure[] }) {
+  return (
+    <div className="mt-2 space-y-2">
+      {figures.map((figure, index) => {
+        const src = `data:${FIGURE_MIME_TYPES[figure.format]};base64,${figure.data}`;
+        return (
+          <figure key={index} className="rounded-lg border bg-white p-2">
+            {/* eslint-disable-next-line @next/next/no-img-element -- inline data URLs, nothing for next/image to optimise */}
+            <img src={src} alt={`Figure ${index + 1}`} className="mx-auto max-h-[28rem] max-w-full" />
+            <figcaption className="mt-1 flex items-center justify-between text-xs text-muted-foreground">
+              <span>Figure {index + 1}</span>
+              <Button asChild variant="ghost" size="sm" className="h-7 gap-1 px-2 text-xs">
+                <a href={src} download={`figure-${index + 1}.${figure.format}`}>
+                  <Download className="size-3.5" />
+                  Download {figure.format.toUpperCase()}
+                </a>
+              </Button>
+            </figcaption>
+          </figure>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+import React from "react";
+import { RotateCcw, Variable } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "./ui/sheet";
+import type { PythonVariable } from "@/utils/python/types";
+
+interface PythonSessionSheetProps {
+  // Python state lives with the stored conversation, so there is nothing to show before the first message
+  sessionId: string | null;
+  disabled?: boolean;
+}
+
+export default function PythonSessionSheet({ sessionId, disabled }: PythonSessionSheetProps) {
+  const [open, setOpen] = React.useState(false);
+  const [running, setRunning] = React.useState(false);
+  const [variables, setVariables] = React.useState<PythonVariable[]>([]);
+
+  const loadVariables = async () => {
+    if (!sessionId) return;
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/python`);
+      if (!response.ok) throw new Error("Failed to load Python session");
+      const data = await response.json();
+      setRunning(data.running);
+      setVariables(data.variables);
+    } catch (error) {
+      console.error("Error:", error);
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      loadVariables();
+    }
+  };
+
+  const resetSession = async () => {
+    if (!sessionId) return;
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/python`, { method: "DELETE" });
+      if (!response.ok) throw new Error("Failed to reset Python session");
+      setRunning(false);
+      setVariables([]);
+    } catch (error) {
+      console.error("Error:", error);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <Button type="button" variant="ghost" size="icon" disabled={!sessionId}>
+          <Variable className="size-4" />
+          <span className="sr-only">Python variables</span>
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col gap-4">
+        <SheetHeader>
+          <SheetTitle>Python session</SheetTitle>
+          <SheetDescription>
+            Variables the tutor&apos;s code has defined in this conversation. Later code can use them until you reset.
+          </SheetDescription>
+        </SheetHeader>
+        <div className="flex-1 overflow-y-auto">
+          {variables.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {running ? "No variables defined yet." : "No Python code has run since the last reset."}
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-xs text-muted-foreground">
+                <tr>
+                  <th className="pb-1 font-medium">Name</th>
+                  <th className="pb-1 font-medium">Type</th>
+                  <th className="pb-1 font-medium">Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {variables.map((variable) => (
+                  <tr key={variable.name} className="border-t align-top">
+                    <td className="py-1 pr-2 font-mono">{variable.name}</td>
+                    <td className="py-1 pr-2 text-muted-foreground">{variable.type}</td>
+                    <td className="break-all py-1 font-mono text-xs">{variable.value}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+        <SheetFooter>
+          <Button variant="outline" className="gap-1.5" disabled={disabled || !running} onClick={resetSession}>
+            <RotateCcw className="size-4" />
+            Reset Python
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+import React from "react";
+import { Check, History, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "./ui/sheet";
+import type { SessionSummary } from "@/utils/sessions/types";
+
+interface SessionsSheetProps {
+  activeSessionId: string | null;
+  onSelect: (sessionId: string) => void;
+  onNew: () => void;
+  // Lets the parent clear its view when the open conversation is deleted
+  onDeleted: (sessionId: string) => void;
+}
+
+export default function SessionsSheet({ activeSessionId, onSelect, onNew, onDeleted }: SessionsSheetProps) {
+  const [open, setOpen] = React.useState(false);
+  const [sessions, setSessions] = React.useState<SessionSummary[]>([]);
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = React.useState("");
+
+  const loadSessions = async () => {
+    try {
+      const response = await fetch("/api/sessions");
+      if (!response.ok) throw new Error("Failed to load sessions");
+      const data = await response.json();
+      setSessions(data.sessions);
+    } catch (error) {
+      console.error("Error:", error);
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      loadSessions();
+    }
+  };
+
+  const renameSession = async (sessionId: string) => {
+    const title = draftTitle.trim();
+    setEditingId(null);
+    if (!title) return;
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+      });
+      if (!response.ok) throw new Error("Failed to rename session");
+      await loadSessions();
+    } catch (error) {
+      console.error("Error:", error);
+    }
+  };
+
+  const deleteSession = async (sessionId: string) => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}`, { method: "DELETE" });
+      if (!response.ok) throw new Error("Failed to delete session");
+      onDeleted(sessionId);
+      await loadSessions();
+    } catch (error) {
+      console.error("Error:", error);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <Button type="button" variant="ghost" size="icon">
+          <History className="size-4" />
+          <span className="sr-only">Conversation history</span>
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="left" className="flex flex-col gap-4">
+        <SheetHeader>
+          <SheetTitle>Conversations</SheetTitle>
+          <SheetDescription>Pick up where you left off.</SheetDescription>
+        </SheetHeader>
+        <Button
+          variant="outline"
+          className="gap-1.5"
+          onClick={() => {
+            onNew();
+            setOpen(false);
+          }}
+        >
+          <Plus className="size-4" />
+          New conversation
+        </Button>
+        <div className="flex flex-col gap-1 overflow-y-auto">
+          {sessions.length === 0 && (
+            <p className="text-sm text-muted-foreground">No saved conversations yet.</p>
+          )}
+          {sessions.map((session) => (
+            <div
+              key={session.id}
+              className={`group flex items-center gap-1 rounded-md px-2 py-1 ${
+                session.id === activeSessionId ? "bg-secondary" : "hover:bg-secondary/50"
+              }`}
+            >
+              {editingId === session.id ? (
+                <>
+                  <Input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") renameSession(session.id);
+                      if (e.key === "Escape") setEditingId(null);
+                    }}
+                    className="h-8"
+                  />
+                  <Button variant="ghost" size="icon" className="size-7" onClick={() => renameSession(session.id)}>
+                    <Check className="size-3.5" />
+                    <span className="sr-only">Save title</span>
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <button
+                    className="flex-1 truncate text-left text-sm"
+                    onClick={() => {
+                      onSelect(session.id);
+                      setOpen(false);
+                    }}
+                  >
+                    {session.title}
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-7 opacity-0 group-hover:opacity-100"
+                    onClick={() => {
+                      setEditingId(session.id);
+                      setDraftTitle(session.title);
+                    }}
+                  >
+                    <Pencil className="size-3.5" />
+                    <span className="sr-only">Rename</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-7 opacity-0 group-hover:opacity-100"
+                    onClick={() => deleteSession(session.id)}
+                  >
+                    <Trash2 className="size-3.5" />
+                    <span className="sr-only">Delete</span>
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+import React from "react";
+import dynamic from "next/dynamic";
+import { ChevronDown, ChevronRight, CircleHelp } from "lucide-react";
+import { Button } from "./ui/button";
+import type { StepSolution } from "@/utils/tools/showSteps";
+
+const MathJax = dynamic(() => import("better-react-mathjax").then(mod => mod.MathJax), {
+  ssr: false,
+  loading: () => <div className="animate-pulse bg-gray-200 dark:bg-gray-700 h-6 w-24 rounded" />,
+});
+
+type Step = StepSolution["steps"][number];
+
+// How far the student has got through one solution
+export interface StepProgress {
+  revealed: number;
+  collapsed: number[];
+}
+
+export const INITIAL_STEP_PROGRESS: StepProgress = { revealed: 1, collapsed: [] };
+
+interface StepListProps {
+  solution: StepSolution;
+  // Controlled so progress survives the chat re-rendering its messages
+  progress: StepProgress;
+  onProgressChange: (progress: StepProgress) => void;
+  onAskWhy?: (step: Step, index: number) => void;
+  disabled?: boolean;
+}
+
+// Numbered solution steps, revealed one at a time; each revealed step can be collapsed again
+export default function StepList({ solution, progress, onProgressChange, onAskWhy, disabled }: StepListProps) {
+  const { steps, finalAnswer } = solution;
+  const { revealed, collapsed } = progress;
+  const allRevealed = revealed >= steps.length;
+
+  const reveal = (count: number) => onProgressChange({ ...progress, revealed: Math.min(count, steps.length) });
+  const toggle = (index: number) => onProgressChange({
+    ...progress,
+    collapsed: collapsed.includes(index) ? collapsed.filter(item => item !== index) : [...collapsed, index],
+  });
+
+  // Typeset again whenever a step is revealed or expanded
+  return (
+    <MathJax dynamic>
+      <div className="mt-2 rounded-lg border bg-gray-50 p-3 dark:bg-gray-800">
+        <div className="mb-2 text-sm font-semibold">{solution.problem}</div>
+        <ol className="space-y-2">
+          {steps.slice(0, revealed).map((step, index) => {
+            const open = !collapsed.includes(index);
+            return (
+              <li key={index} className="rounded-md border bg-background p-2">
+                <button
+                  type="button"
+                  className="flex w-full items-center gap-1.5 text-left text-sm font-medium"
+                  onClick={() => toggle(index)}
+                >
+                  {open ? <ChevronDown className="size-3.5" /> : <ChevronRight className="size-3.5" />}
+                  {index + 1}. {step.title}
+                </button>
+                {open && (
+                  <div className="mt-1 pl-5 text-sm">
+                    <div className="overflow-x-auto">{`$$${step.latex}$$`}</div>
+                    <p className="text-muted-foreground">{step.justification}</p>
+                    {step.toolResult && (
+                      <pre className="mt-1 whitespace-pre-wrap rounded bg-muted p-2 text-xs">{step.toolResult}</pre>
+                    )}
+                    {onAskWhy && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="mt-1 h-7 gap-1 px-2 text-xs"
+                        disabled={disabled}
+                        onClick={() => onAskWhy(step, index)}
+                      >
+                        <CircleHelp className="size-3.5" />
+                        Why?
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+        {allRevealed ? (
+          finalAnswer && <div className="mt-2 text-sm font-semibold">Answer: {`$${finalAnswer}$`}</div>
+        ) : (
+          <div className="mt-2 flex gap-2">
+            <Button type="button" size="sm" variant="outline" onClick={() => reveal(revealed + 1)}>
+              Show step {revealed + 1} of {steps.length}
+            </Button>
+            <Button type="button" size="sm" variant="ghost" onClick={() => reveal(steps.length)}>
+              Show all
+            </Button>
+          </div>
+        )}
+      </div>
+    </MathJax>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+import React from "react";
+import { ChevronDown, GraduationCap } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import { TUTOR_MODES, TutorMode, tutorModes } from "@/utils/tutorModes";
+
+interface TutorModePickerProps {
+  mode: TutorMode;
+  onModeChange: (mode: TutorMode) => void;
+  disabled?: boolean;
+}
+
+export default function TutorModePicker({ mode, onModeChange, disabled }: TutorModePickerProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild disabled={disabled}>
+        <Button type="button" variant="ghost" size="sm" className="gap-1.5">
+          <GraduationCap className="size-4" />
+          {tutorModes[mode].label}
+          <ChevronDown className="size-3.5" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-64">
+        <DropdownMenuLabel>Tutoring style</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={mode} onValueChange={(value) => onModeChange(value as TutorMode)}>
+          {TUTOR_MODES.map((id) => (
+            <DropdownMenuRadioItem key={id} value={id} className="flex flex-col items-start">
+              <span>{tutorModes[id].label}</span>
+              <span className="text-xs text-muted-foreground">{tutorModes[id].description}</span>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
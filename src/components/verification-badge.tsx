@@ -0,0 +1,36 @@
+"use client";
+import React from "react";
+import { CircleAlert, CircleCheck } from "lucide-react";
+import type { Verification } from "@/utils/verification";
+
+const outcomeLabels = {
+  agrees: "matches",
+  disagrees: "SymPy gets",
+  error: "could not check",
+};
+
+// Replies without a checkable final answer get no badge
+export default function VerificationBadge({ verification }: { verification: Verification }) {
+  if (verification.status === "none") return null;
+
+  const verified = verification.status === "verified";
+  const details = verification.claims
+    .map(({ description, claimed, outcome, detail }) =>
+      `${description}: ${claimed} (${outcomeLabels[outcome]}${outcome === "agrees" || !detail ? "" : ` ${detail}`})`)
+    .join("\n");
+
+  return (
+    <span
+      title={details}
+      className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs ${
+        verified
+          ? "border-green-600/40 text-green-700 dark:text-green-400"
+          : "border-amber-600/40 text-amber-700 dark:text-amber-400"
+      }`}
+    >
+      {verified ? <CircleCheck className="size-3" /> : <CircleAlert className="size-3" />}
+      {verified ? "Answer verified" : "Could not verify"}
+      {verification.revised && " after revision"}
+    </span>
+  );
+}
@@ -0,0 +1,9 @@
+// Runs once when the server starts
+export async function register() {
+  // Written as a condition around the import so the edge bundle, which never runs Python, leaves the module out.
+  // An invalid execution policy stops the server here instead of failing the first Python run.
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { checkExecutionPolicy } = await import('./utils/python/startup');
+    checkExecutionPolicy();
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { chartSpecSchema, getChart } from './chartUtils';
+
+// The issues a spec fails with, as "path: message"
+function issues(spec: unknown): string[] {
+  const parsed = chartSpecSchema.safeParse(spec);
+  return parsed.success ? [] : parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+}
+
+const histogram = (datasets: { label: string; data: number[] }[], bins?: number) =>
+  getChart(chartSpecSchema.parse({ type: 'histogram', datasets, bins }));
+
+describe('chartSpecSchema', () => {
+  it('accepts a complete spec and fills in the defaults', () => {
+    const spec = chartSpecSchema.parse({ type: 'bar', labels: ['a', 'b'], datasets: [{ label: 'n', data: [1, 2] }] });
+    expect(spec).toMatchObject({ legendPosition: 'top', palette: 'default' });
+  });
+
+  it('needs one value per label for category charts', () => {
+    expect(issues({ type: 'bar', labels: ['a', 'b'], datasets: [{ label: 'n', data: [1] }] }))
+      .toEqual(['datasets.0.data: data must have one value per label']);
+    expect(issues({ type: 'line', datasets: [{ label: 'n', data: [1] }] }))
+      .toEqual(['datasets.0.data: data must have one value per label']);
+    expect(issues({ type: 'pie', labels: ['a'], datasets: [{ label: 'n' }] }))
+      .toEqual(['datasets.0.data: pie charts need data in every dataset']);
+  });
+
+  it('needs raw values for histograms and points for point charts', () => {
+    expect(issues({ type: 'histogram', datasets: [{ label: 'n', data: [] }] }))
+      .toEqual(['datasets.0.data: Histograms need the raw values in data']);
+    expect(issues({ type: 'scatter', datasets: [{ label: 'n', data: [1] }] }))
+      .toEqual(['datasets.0.points: scatter charts need points']);
+    expect(issues({ type: 'bubble', datasets: [{ label: 'n', points: [{ x: 1, y: 2 }] }] }))
+      .toEqual(['datasets.0.points: Every bubble needs a radius r']);
+  });
+
+  it('needs positive values on logarithmic axes', () => {
+    expect(issues({
+      type: 'scatter',
+      datasets: [{ label: 'n', points: [{ x: 0, y: 1 }, { x: 1, y: -1 }] }],
+      xAxis: { scale: 'logarithmic' },
+      yAxis: { scale: 'logarithmic' },
+    })).toEqual([
+      'datasets.0.points: A logarithmic x axis needs positive x values',
+      'datasets.0.points: A logarithmic y axis needs positive values',
+    ]);
+    expect(issues({ type: 'bar', labels: ['a'], datasets: [{ label: 'n', data: [0] }], yAxis: { scale: 'logarithmic' } }))
+      .toEqual(['datasets.0.data: A logarithmic y axis needs positive values']);
+  });
+
+  it('only allows a logarithmic x axis on point charts', () => {
+    expect(issues({ type: 'bar', labels: ['a'], datasets: [{ label: 'n', data: [1] }], xAxis: { scale: 'logarithmic' } }))
+      .toEqual(['xAxis.scale: Only scatter and bubble charts can have a logarithmic x axis']);
+  });
+});
+
+describe('histogram binning', () => {
+  it('counts values into equal-width bins, the last one including its upper edge', async () => {
+    const chart = await histogram([{ label: 'n', data: [1, 2, 2, 3, 4, 5, 5, 5] }], 4);
+    expect(chart.data.labels).toEqual(['1–2', '2–3', '3–4', '4–5']);
+    expect(chart.data.datasets[0].data).toEqual([1, 2, 1, 4]);
+  });
+
+  it("picks the number of bins with Sturges' rule when none is given", async () => {
+    const chart = await histogram([{ label: 'n', data: [1, 2, 3, 4, 5, 6, 7, 8, 9] }]);
+    expect(chart.data.labels).toHaveLength(5);
+    expect(chart.data.datasets[0].data).toEqual([2, 2, 1, 2, 2]);
+  });
+
+  it('bins every dataset over the same edges', async () => {
+    const chart = await histogram([{ label: 'a', data: [0, 10] }, { label: 'b', data: [5] }], 2);
+    expect(chart.data.labels).toEqual(['0–5', '5–10']);
+    expect(chart.data.datasets.map(dataset => dataset.data)).toEqual([[1, 1], [0, 1]]);
+  });
+
+  it('gives identical values a bin of width one', async () => {
+    const chart = await histogram([{ label: 'n', data: [3, 3, 3] }]);
+    expect(chart.data.labels).toEqual(['3–4', '4–5', '5–6']);
+    expect(chart.data.datasets[0].data).toEqual([3, 0, 0]);
+  });
+
+  it('labels fractional edges with three significant digits', async () => {
+    const chart = await histogram([{ label: 'n', data: [0, 1] }], 3);
+    expect(chart.data.labels).toEqual(['0–0.333', '0.333–0.667', '0.667–1']);
+  });
+
+  it('draws touching bars against a frequency axis', async () => {
+    const chart = await histogram([{ label: 'n', data: [1, 2] }], 2);
+    expect(chart.type).toBe('bar');
+    expect(chart.data.datasets[0]).toMatchObject({ barPercentage: 1, categoryPercentage: 1 });
+    expect(chart.options?.scales?.y).toMatchObject({ title: { display: true, text: 'Frequency' }, beginAtZero: true });
+  });
+});
@@ -1,27 +1,197 @@
 import { ChartConfiguration } from 'chart.js';
+import { z } from 'zod';
 
-export async function getChart(type: string, data: number[], labels: string[]): Promise<ChartConfiguration> {
+export const CHART_TYPES = ['bar', 'line', 'pie', 'doughnut', 'scatter', 'bubble', 'histogram'] as const;
+export type ChartType = typeof CHART_TYPES[number];
+
+// Series colours, assigned in order and repeated when a chart has more series
+export const CHART_PALETTES = {
+  default: ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed', '#0891b2'],
+  // Okabe-Ito, distinguishable with the common forms of colour blindness
+  colorblind: ['#0072b2', '#e69f00', '#009e73', '#d55e00', '#cc79a7', '#56b4e9', '#f0e442', '#000000'],
+  pastel: ['#93c5fd', '#fca5a5', '#86efac', '#fcd34d', '#c4b5fd', '#67e8f9'],
+  monochrome: ['#1e3a8a', '#1d4ed8', '#3b82f6', '#60a5fa', '#93c5fd', '#bfdbfe'],
+};
+export type PaletteName = keyof typeof CHART_PALETTES;
+const PALETTE_NAMES = Object.keys(CHART_PALETTES) as [PaletteName, ...PaletteName[]];
+
+const CATEGORY_TYPES: ChartType[] = ['bar', 'line', 'pie', 'doughnut'];
+const POINT_TYPES: ChartType[] = ['scatter', 'bubble'];
+
+const axisSchema = z.object({
+  title: z.string().max(80).optional().describe('Axis title, including units where relevant.'),
+  scale: z.enum(['linear', 'logarithmic']).default('linear').describe('Logarithmic axes need positive values.'),
+});
+
+const datasetSchema = z.object({
+  label: z.string().min(1).max(80).describe('Series name shown in the legend.'),
+  data: z.array(z.number()).optional()
+    .describe('One value per label for bar, line, pie and doughnut charts; the raw observations for a histogram.'),
+  points: z.array(z.object({
+    x: z.number(),
+    y: z.number(),
+    r: z.number().positive().max(50).optional().describe('Bubble radius in pixels.'),
+  })).optional().describe('Points for scatter and bubble charts.'),
+});
+
+export const chartSpecSchema = z.object({
+  type: z.enum(CHART_TYPES).describe('Chart type. histogram bins the raw values in each dataset.'),
+  title: z.string().max(120).optional(),
+  labels: z.array(z.string()).optional().describe('Category labels for bar, line, pie and doughnut charts.'),
+  datasets: z.array(datasetSchema).min(1).max(8),
+  bins: z.number().int().min(1).max(100).optional().describe('Number of histogram bins; chosen from the sample size when omitted.'),
+  xAxis: axisSchema.optional(),
+  yAxis: axisSchema.optional(),
+  legendPosition: z.enum(['top', 'bottom', 'left', 'right', 'hidden']).default('top'),
+  palette: z.enum(PALETTE_NAMES).default('default').describe('colorblind is safe for colour-blind readers.'),
+}).superRefine((spec, ctx) => {
+  const issue = (message: string, path: (string | number)[]) => ctx.addIssue({ code: z.ZodIssueCode.custom, message, path });
+  const { type, labels, datasets, xAxis, yAxis } = spec;
+
+  datasets.forEach(({ data, points }, index) => {
+    if (CATEGORY_TYPES.includes(type)) {
+      if (!data) {
+        issue(`${type} charts need data in every dataset`, ['datasets', index, 'data']);
+      } else if (!labels || data.length !== labels.length) {
+        issue('data must have one value per label', ['datasets', index, 'data']);
+      }
+    } else if (type === 'histogram') {
+      if (!data || data.length === 0) issue('Histograms need the raw values in data', ['datasets', index, 'data']);
+    } else if (!points || points.length === 0) {
+      issue(`${type} charts need points`, ['datasets', index, 'points']);
+    } else if (type === 'bubble' && points.some(point => point.r === undefined)) {
+      issue('Every bubble needs a radius r', ['datasets', index, 'points']);
+    }
+
+    const xValues = points?.map(point => point.x) ?? [];
+    const yValues = POINT_TYPES.includes(type) ? points?.map(point => point.y) ?? [] : type === 'histogram' ? [] : data ?? [];
+    if (xAxis?.scale === 'logarithmic' && xValues.some(value => value <= 0)) {
+      issue('A logarithmic x axis needs positive x values', ['datasets', index, 'points']);
+    }
+    if (yAxis?.scale === 'logarithmic' && yValues.some(value => value <= 0)) {
+      issue('A logarithmic y axis needs positive values', ['datasets', index, POINT_TYPES.includes(type) ? 'points' : 'data']);
+    }
+  });
+
+  if (xAxis?.scale === 'logarithmic' && !POINT_TYPES.includes(type)) {
+    issue('Only scatter and bubble charts can have a logarithmic x axis', ['xAxis', 'scale']);
+  }
+});
+
+export type ChartSpec = z.infer<typeof chartSpecSchema>;
+
+function withAlpha(hex: string, alpha: number): string {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${value >> 16}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+}
+
+// Compact bin edges: whole numbers stay whole, others keep three significant digits
+const formatEdge = (value: number) => (Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(3))));
+
+// Bins every dataset over the same edges so the bars line up; the last bin includes its upper edge
+function binHistogram(datasets: ChartSpec['datasets'], bins?: number): { labels: string[]; counts: number[][] } {
+  const values = datasets.map(dataset => dataset.data ?? []);
+  const all = values.flat();
+  const min = Math.min(...all);
+  const max = Math.max(...all);
+  // Sturges' rule for the largest sample
+  const count = bins ?? Math.ceil(Math.log2(Math.max(...values.map(sample => sample.length)))) + 1;
+  const width = (max - min) / count || 1;
+
+  const edges = Array.from({ length: count + 1 }, (_, index) => min + index * width);
+  const labels = edges.slice(0, -1).map((edge, index) => `${formatEdge(edge)}–${formatEdge(edges[index + 1])}`);
+  const counts = values.map(sample => {
+    const binCounts = new Array(count).fill(0);
+    for (const value of sample) {
+      binCounts[Math.min(count - 1, Math.floor((value - min) / width))]++;
+    }
+    return binCounts;
+  });
+  return { labels, counts };
+}
+
+function axis(spec: ChartSpec['xAxis'], fallbackType: 'category' | 'linear') {
   return {
-    type: type as 'bar',
-    data: {
-      labels,
-      datasets: [
-        {
-          label: 'Generated Chart',
-          data,
-          backgroundColor: 'rgba(75, 192, 192, 0.2)',
-          borderColor: 'rgba(75, 192, 192, 1)',
+    type: spec?.scale === 'logarithmic' ? 'logarithmic' : fallbackType,
+    title: { display: Boolean(spec?.title), text: spec?.title ?? '' },
+  } as const;
+}
+
+// Translates a validated spec into a Chart.js configuration the chat renders as is
+export async function getChart(spec: ChartSpec): Promise<ChartConfiguration> {
+  const { type, title, datasets, xAxis, yAxis, legendPosition } = spec;
+  const palette = CHART_PALETTES[spec.palette];
+  const colorAt = (index: number) => palette[index % palette.length];
+
+  const plugins = {
+    title: { display: Boolean(title), text: title ?? '' },
+    legend: legendPosition === 'hidden' ? { display: false } : { display: true, position: legendPosition },
+  };
+
+  if (type === 'pie' || type === 'doughnut') {
+    // Slices, not series, need distinct colours
+    const sliceColors = (spec.labels ?? []).map((_, index) => colorAt(index));
+    return {
+      type,
+      data: {
+        labels: spec.labels,
+        datasets: datasets.map(({ label, data }) => ({
+          label,
+          data: data ?? [],
+          backgroundColor: sliceColors.map(color => withAlpha(color, 0.7)),
+          borderColor: sliceColors,
           borderWidth: 1,
-        },
-      ],
+        })),
+      },
+      options: { responsive: true, plugins },
+    };
+  }
+
+  if (type === 'scatter' || type === 'bubble') {
+    return {
+      type,
+      data: {
+        datasets: datasets.map(({ label, points }, index) => ({
+          label,
+          data: (points ?? []).map(({ x, y, r }) => (type === 'bubble' ? { x, y, r: r ?? 5 } : { x, y })),
+          backgroundColor: withAlpha(colorAt(index), 0.5),
+          borderColor: colorAt(index),
+          borderWidth: 1,
+        })),
+      },
+      options: {
+        responsive: true,
+        plugins,
+        scales: { x: axis(xAxis, 'linear'), y: axis(yAxis, 'linear') },
+      },
+    };
+  }
+
+  const histogram = type === 'histogram' ? binHistogram(datasets, spec.bins) : null;
+  return {
+    type: type === 'line' ? 'line' : 'bar',
+    data: {
+      labels: histogram?.labels ?? spec.labels,
+      datasets: datasets.map(({ label, data }, index) => ({
+        label,
+        data: histogram?.counts[index] ?? data ?? [],
+        backgroundColor: withAlpha(colorAt(index), type === 'line' ? 1 : 0.5),
+        borderColor: colorAt(index),
+        borderWidth: type === 'line' ? 2 : 1,
+        // Histogram bars touch, since the bins are contiguous
+        ...(histogram ? { barPercentage: 1, categoryPercentage: 1 } : {}),
+      })),
     },
     options: {
       responsive: true,
-      plugins: {
-        legend: {
-          display: true,
+      plugins,
+      scales: {
+        x: axis(xAxis, 'category'),
+        y: {
+          ...axis(histogram && !yAxis?.title ? { scale: yAxis?.scale ?? 'linear', title: 'Frequency' } : yAxis, 'linear'),
+          beginAtZero: yAxis?.scale !== 'logarithmic',
         },
       },
     },
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,54 @@
+import type { ToolOutputKind } from './tools/registry';
+import type { Verification } from './verification';
+
+// Newline-delimited JSON events streamed from /api/chat when `stream: true` is set
+export type ChatStreamEvent =
+  // Ids the question and reply are stored under in the session's message tree
+  | { type: 'start'; userMessageId: string; assistantMessageId: string }
+  // Older messages were folded into a summary before this reply was generated
+  | { type: 'summary'; coveredMessageCount: number }
+  | { type: 'text'; delta: string }
+  | { type: 'tool-call'; name: string; args: Record<string, unknown> }
+  | { type: 'tool-result'; name: string; kind: ToolOutputKind; output: unknown }
+  // Result of recomputing the reply's final answers, sent once the reply is complete
+  | { type: 'verification'; verification: Verification }
+  // Provider turns stay on the server, where the next request replays them
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+export const CHAT_STREAM_CONTENT_TYPE = 'application/x-ndjson';
+
+export function encodeChatEvent(event: ChatStreamEvent): string {
+  return `${JSON.stringify(event)}\n`;
+}
+
+// Reads a streamed response body and yields one event per complete line
+export async function* readChatEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line.trim()) {
+          yield JSON.parse(line) as ChatStreamEvent;
+        }
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) {
+      yield JSON.parse(buffer) as ChatStreamEvent;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { ChatTurn } from './llm';
+import { TOOL_OUTPUT_KINDS, ToolOutput } from './tools/registry';
+
+const chatPartSchema = z.object({
+  text: z.string().optional(),
+  functionCall: z.object({
+    name: z.string(),
+    args: z.record(z.unknown()),
+  }).optional(),
+  functionResponse: z.object({
+    name: z.string(),
+    response: z.record(z.unknown()),
+  }).optional(),
+});
+
+export const chatTurnSchema = z.object({
+  role: z.enum(['user', 'model', 'function']),
+  parts: z.array(chatPartSchema).min(1),
+});
+
+// zod marks `unknown` keys optional, so pin the inferred type to ToolOutput
+export const toolOutputSchema: z.ZodType<ToolOutput> = z.object({
+  name: z.string(),
+  kind: z.enum(TOOL_OUTPUT_KINDS),
+  output: z.unknown(),
+}) as z.ZodType<ToolOutput>;
+
+// A chat message as the client holds it; assistant messages carry the provider turns that produced them
+export const clientMessageSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  functionOutputs: z.array(toolOutputSchema).optional(),
+  turns: z.array(chatTurnSchema).optional(),
+  status: z.literal('cancelled').optional(),
+});
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+// Replays prior messages as provider turns, keeping function calls and responses where recorded
+export function toChatHistory(messages: ClientMessage[]): ChatTurn[] {
+  return messages.flatMap((message): ChatTurn[] => {
+    if (message.role === 'assistant') {
+      return message.turns?.length
+        ? message.turns
+        : [{ role: 'model', parts: [{ text: message.content }] }];
+    }
+    return [{ role: 'user', parts: [{ text: message.content }] }];
+  });
+}
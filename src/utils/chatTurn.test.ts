@@ -0,0 +1,84 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { ChatStreamEvent } from './chatEvents';
+import type { ChatTurnRequest, ChatTurnResult } from './chatTurn';
+import { DEFAULT_LEARNER_PROFILE } from './learnerProfile';
+import { FunctionCallPart } from './llm';
+import { createMockProvider, MockTurn } from './llm/mock';
+import { getChart } from './tools/getChart';
+import { tutorModes } from './tutorModes';
+
+const chartCall: FunctionCallPart = {
+  name: 'getChart',
+  args: { type: 'bar', title: 'Squares', labels: ['1', '2', '3'], datasets: [{ label: 'n²', data: [1, 4, 9] }] },
+};
+
+let runChatTurn: (turn: ChatTurnRequest, send?: (event: ChatStreamEvent) => void) => Promise<ChatTurnResult>;
+
+beforeAll(async () => {
+  // Read when the module loads
+  process.env.CHAT_MAX_TOOL_ITERATIONS = '2';
+  ({ runChatTurn } = await import('./chatTurn'));
+});
+
+// Runs one student message against `script`; `stopOn` aborts the turn when that event is sent
+async function runScript(script: MockTurn[], stopOn?: ChatStreamEvent['type']) {
+  const provider = createMockProvider(script, 1);
+  const abortController = new AbortController();
+  const events: ChatStreamEvent[] = [];
+  const result = await runChatTurn({
+    provider,
+    chatSession: provider.startChat({ systemInstruction: '', tools: [], history: [] }),
+    currentMessage: 'Chart the first squares',
+    tools: [getChart],
+    tutorMode: tutorModes.direct,
+    toolContext: { profile: DEFAULT_LEARNER_PROFILE, signal: abortController.signal },
+    signal: abortController.signal,
+  }, event => {
+    events.push(event);
+    if (event.type === stopOn) abortController.abort();
+  });
+  return { result, events };
+}
+
+describe('runChatTurn', { timeout: 10000 }, () => {
+  it('runs the tool calls and sends their results back to the model', async () => {
+    const { result, events } = await runScript([{ functionCalls: [chartCall] }, { text: 'Here is the chart.' }]);
+
+    expect(result.cancelled).toBe(false);
+    expect(result.text).toBe('Here is the chart.');
+    expect(result.functionOutputs).toEqual([expect.objectContaining({ name: 'getChart', kind: 'chart' })]);
+    expect(result.turns.map(turn => turn.role)).toEqual(['model', 'function', 'model']);
+    expect(result.turns[1].parts[0].functionResponse?.name).toBe('getChart');
+    expect(events.map(event => event.type).filter(type => type !== 'text')).toEqual(['tool-call', 'tool-result']);
+  });
+
+  it('stops a model that keeps calling tools and keeps the history replayable', async () => {
+    const { result } = await runScript([{ functionCalls: [chartCall] }]);
+
+    expect(result.functionOutputs).toHaveLength(2);
+    expect(result.text).toContain('Stopped after 2 tool steps');
+    const last = result.turns[result.turns.length - 1];
+    expect(last.role).toBe('model');
+    expect(last.parts.some(part => part.functionCall)).toBe(false);
+  });
+
+  it('ends on the partial text when the student stops the reply', async () => {
+    const { result } = await runScript([{ text: 'one two three four' }], 'text');
+
+    expect(result.cancelled).toBe(true);
+    expect(result.text).toBe('one ');
+    expect(result.turns).toEqual([
+      { role: 'model', parts: [{ text: 'one \n\n[The student stopped this reply before it was finished.]' }] },
+    ]);
+  });
+
+  it('drops function calls that never got a response when stopped during a tool', async () => {
+    const { result } = await runScript([{ text: 'Plotting. ', functionCalls: [chartCall] }], 'tool-call');
+
+    expect(result.cancelled).toBe(true);
+    expect(result.functionOutputs).toEqual([]);
+    expect(result.turns).toEqual([
+      { role: 'model', parts: [{ text: 'Plotting. \n\n[The student stopped this reply before it was finished.]' }] },
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { ChatStreamEvent } from './chatEvents';
+import { ChatPart, ChatTurn, LLMChatSession, LLMProvider } from './llm';
+import { modelContent, runToolCalls, ToolContext, ToolDefinition, ToolOutput } from './tools';
+import { TutorModeConfig } from './tutorModes';
+import type { Verification } from './verification';
+
+// Upper bound on model <-> tool round trips for a single user message
+const MAX_TOOL_ITERATIONS = Number(process.env.CHAT_MAX_TOOL_ITERATIONS) || 5;
+
+export interface ChatTurnResult {
+  text: string;
+  // Outputs the student may see; private tools' results only appear in `turns`
+  functionOutputs: ToolOutput[];
+  // Model and function turns produced while answering, replayed verbatim on later requests
+  turns: ChatTurn[];
+  // The student stopped the reply; text and outputs hold whatever arrived before that
+  cancelled: boolean;
+  verification?: Verification;
+}
+
+export interface ChatTurnRequest {
+  provider: LLMProvider;
+  chatSession: LLMChatSession;
+  currentMessage: string;
+  // Tools the model may call in this turn; anything else is answered with an error
+  tools: ToolDefinition[];
+  // Decides which tool results the student sees and whether wrong answers are revised
+  tutorMode: TutorModeConfig;
+  toolContext: ToolContext;
+  // Aborted when the student stops the reply or the client disconnects
+  signal: AbortSignal;
+}
+
+const CANCELLED_NOTE = '[The student stopped this reply before it was finished.]';
+
+// Keeps sending tool results back to the model until it answers without requesting tools
+export async function runChatTurn(
+  { chatSession, currentMessage, tools, tutorMode: { privateTools }, toolContext, signal }: ChatTurnRequest,
+  send: (event: ChatStreamEvent) => void = () => {},
+): Promise<ChatTurnResult> {
+  const functionOutputs: ToolOutput[] = [];
+  const turns: ChatTurn[] = [];
+  let request: string | ChatPart[] = currentMessage;
+  let text = '';
+  let stepText = '';
+
+  try {
+    for (let iteration = 0; ; iteration++) {
+      signal.throwIfAborted();
+      const result = await chatSession.sendMessageStream(request, { signal });
+      for await (const delta of result.stream) {
+        stepText += delta;
+        text += delta;
+        send({ type: 'text', delta });
+      }
+
+      const { functionCalls } = await result.response;
+      const textParts: ChatPart[] = stepText ? [{ text: stepText }] : [];
+
+      if (functionCalls.length === 0) {
+        if (textParts.length > 0) {
+          turns.push({ role: 'model', parts: textParts });
+        }
+        break;
+      }
+
+      if (iteration >= MAX_TOOL_ITERATIONS) {
+        console.warn(`Stopped after ${MAX_TOOL_ITERATIONS} tool iterations`);
+        const notice = `\n\n_Stopped after ${MAX_TOOL_ITERATIONS} tool steps._`;
+        text += notice;
+        send({ type: 'text', delta: notice });
+        // Unanswered function calls would make the replayed history invalid, so only keep the text
+        turns.push({ role: 'model', parts: [...textParts, { text: notice }] });
+        break;
+      }
+
+      turns.push({
+        role: 'model',
+        parts: [...textParts, ...functionCalls.map(functionCall => ({ functionCall }))],
+      });
+
+      for (const { name, args } of functionCalls) {
+        if (!privateTools.includes(name)) send({ type: 'tool-call', name, args });
+      }
+
+      const outputs = await runToolCalls(functionCalls, tools, toolContext);
+      signal.throwIfAborted();
+      for (const toolOutput of outputs) {
+        if (privateTools.includes(toolOutput.name)) continue;
+        functionOutputs.push(toolOutput);
+        send({ type: 'tool-result', ...toolOutput });
+      }
+
+      request = outputs.map(toolOutput => ({
+        functionResponse: { name: toolOutput.name, response: { content: modelContent(tools, toolOutput) } },
+      }));
+      turns.push({ role: 'function', parts: request });
+      stepText = '';
+    }
+  } catch (error) {
+    if (!signal.aborted) {
+      throw error;
+    }
+
+    // Drop calls that never got a response and end on the partial text, keeping the history replayable
+    if (turns[turns.length - 1]?.parts.some(part => part.functionCall)) {
+      turns.pop();
+    }
+    turns.push({ role: 'model', parts: [{ text: stepText ? `${stepText}\n\n${CANCELLED_NOTE}` : CANCELLED_NOTE }] });
+    return { text, functionOutputs, turns, cancelled: true };
+  }
+
+  return { text, functionOutputs, turns, cancelled: false };
+}
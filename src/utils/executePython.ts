@@ -1,74 +1,224 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { writeFile, unlink } from 'fs/promises';
-import { join } from 'path';
-import { tmpdir } from 'os';
-import crypto from 'crypto';
-
-const execAsync = promisify(exec);
-
-// Whitelist of allowed Python modules for mathematical operations
-const ALLOWED_MODULES = new Set([
-    'math', 'numpy', 'statistics', 'random',
-    'decimal', 'fractions', 'operator'
-]);
-
-function validatePythonCode(code: string): boolean {
-    // Check for import statements
-    const importMatches = code.match(/import\s+([a-zA-Z0-9_,\s]+)/g) || [];
-    for (const match of importMatches) {
-        const modules = match.replace('import', '').trim().split(',');
-        for (const module of modules) {
-            if (!ALLOWED_MODULES.has(module.trim())) {
-                return false;
+import { ChildProcessWithoutNullStreams } from 'child_process';
+import { readFile, rm } from 'fs/promises';
+import { FigureFormat, readFigures } from './python/harness';
+import { WorkerPool } from './python/pool';
+import { RunPolicy, runPolicy } from './python/policy';
+import { getExecutionScheduler, getScriptPool, getWorkerPool } from './python/runner';
+import { capStream, kilobytesToMb, RunLimits, runBudget } from './python/sandbox';
+import { getPythonSession } from './python/sessions';
+import { formatIssues, ValidationIssue } from './python/validate';
+import { ExecutionResult } from './python/types';
+
+export interface ExecuteOptions {
+    // Kills the Python process when aborted, e.g. because the student stopped the reply
+    signal?: AbortSignal;
+    // Whose queue the run waits in when every slot is busy; runs without one share a queue
+    userKey?: string;
+}
+
+export interface ScriptOptions extends ExecuteOptions {
+    limits: RunLimits;
+}
+
+export interface ExecuteCodeOptions extends ExecuteOptions {
+    // Allowed modules and limits; the runPython tool's defaults when not given
+    policy?: RunPolicy;
+    figureFormat?: FigureFormat;
+    // Runs in the chat session's persistent interpreter instead of a fresh process
+    sessionId?: string;
+}
+
+export type ScriptResult = { output?: string; error?: string };
+
+// Everything about a run except what is specific to model code
+export type ProcessRun = Omit<ExecutionResult, 'code' | 'figures' | 'variables'>;
+
+// Combined stdout and stderr a run may print before it is stopped
+const OUTPUT_LIMIT_BYTES = 1024 * 1024;
+
+const SHARED_QUEUE = 'shared';
+
+const notRun = (error: string, startedAt = Date.now()): ProcessRun => ({
+    stdout: '', stderr: '', exitCode: null, wallTimeMs: Date.now() - startedAt, timedOut: false, truncated: false, error,
+});
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export async function executePythonCode(
+    code: string,
+    { policy = runPolicy('runPython'), figureFormat = 'png', sessionId, userKey = SHARED_QUEUE, signal }: ExecuteCodeOptions = {},
+): Promise<ExecutionResult> {
+    try {
+        // The worker checks the code against the policy's module allowlist and forbidden names before running it
+        const { allowedModules } = policy;
+        return await getExecutionScheduler().run(userKey, async () => {
+            if (sessionId) {
+                return { code, ...(await getPythonSession(sessionId).run(code, { figureFormat, limits: policy, allowedModules, signal })) };
             }
-        }
+            return { code, ...(await runInWarmWorker(getWorkerPool(), code, { figureFormat, limits: policy, allowedModules, signal })) };
+        }, signal);
+    } catch (error) {
+        // The queue was full, or the run was cancelled while it waited
+        return { code, ...notRun(errorMessage(error)) };
     }
-    
-    // Check for potentially harmful operations
-    const blacklist = [
-        'open', 'file', 'exec', 'eval', 'subprocess',
-        'os.', 'sys.', '__import__', 'input('
-    ];
-    
-    return !blacklist.some(term => code.includes(term));
 }
 
-export async function executePythonCode(code: string): Promise<{ output?: string; error?: string }> {
-    if (!validatePythonCode(code)) {
-        return { error: 'Invalid or unauthorized Python code' };
+type WarmRunOptions = {
+    figureFormat: FigureFormat;
+    limits: RunLimits;
+    // Validates the code before running it; server scripts leave it out
+    allowedModules?: string[];
+    signal?: AbortSignal;
+};
+
+// Runs code in a pre-started interpreter that is discarded afterwards
+async function runInWarmWorker(
+    pool: WorkerPool,
+    code: string,
+    { figureFormat, limits, allowedModules, signal }: WarmRunOptions,
+): Promise<Omit<ExecutionResult, 'code'>> {
+    const worker = await pool.acquire();
+    try {
+        const startedAt = Date.now();
+        const exit = waitForExit(worker.child, { signal, timeoutMs: limits.timeoutMs });
+        const job = { code, figureDir: worker.directory, figureFormat, allowedModules, usagePath: worker.usagePath, limits: runBudget(limits) };
+        worker.child.stdin.end(`${JSON.stringify(job)}\n`);
+        const run = await processRun(await exit, worker.usagePath, startedAt, limits.outputChars);
+        const figures = await readFigures(worker.directory);
+        return { ...run, ...(figures.length > 0 ? { figures } : {}) };
+    } finally {
+        worker.child.kill('SIGKILL');
+        await removeRunDirectory(worker.directory);
     }
+}
 
-    const tempFileName = join(tmpdir(), `python-${crypto.randomBytes(6).toString('hex')}.py`);
-    
+function scriptResult({ stdout, stderr, exitCode, error }: ProcessRun): ScriptResult {
+    if (error) {
+        return { error };
+    }
+    return exitCode === 0 ? { output: stdout.trim() } : { error: stderr || `Python exited with code ${exitCode}` };
+}
+
+// Runs a script written by the server itself, skipping the checks meant for model-generated code.
+// Its worker has SymPy imported already, so symbolic work and answer checks do not pay for the import.
+export async function runPythonScript(code: string, { userKey = SHARED_QUEUE, limits, signal }: ScriptOptions): Promise<ScriptResult> {
     try {
-        // Write code to temporary file
-        await writeFile(tempFileName, code, 'utf-8');
-        
-        // Execute with proper encoding and error handling
-        const { stdout, stderr } = await execAsync(`python "${tempFileName}"`, {
-            encoding: 'utf8',
-            maxBuffer: 1024 * 1024, // 1MB buffer
-            timeout: 5000 // 5 second timeout
-        });
+        return scriptResult(await getExecutionScheduler().run(
+            userKey,
+            () => runInWarmWorker(getScriptPool(), code, { figureFormat: 'png', limits, signal }),
+            signal,
+        ));
+    } catch (error) {
+        return { error: errorMessage(error) };
+    }
+}
+
+// Cleanup: Delete the script and everything it wrote
+async function removeRunDirectory(directory: string) {
+    try {
+        await rm(directory, { recursive: true, force: true });
+    } catch (e) {
+        console.error('Failed to cleanup temporary directory:', e);
+    }
+}
+
+type ProcessExit = {
+    stdout: string;
+    stderr: string;
+    exitCode: number | null;
+    exitSignal: NodeJS.Signals | null;
+    stopReason?: string;
+    timedOut: boolean;
+    outputExceeded: boolean;
+};
 
-        if (stderr) {
-            return { error: stderr };
-        }
+// Collects the output of a sandboxed run, killing it when it runs too long, prints too much or is cancelled
+function waitForExit(
+    child: ChildProcessWithoutNullStreams,
+    { signal, timeoutMs }: { signal?: AbortSignal; timeoutMs: number },
+): Promise<ProcessExit> {
+    return new Promise((resolve, reject) => {
+        const stdout: Buffer[] = [];
+        const stderr: Buffer[] = [];
+        let size = 0;
+        let stopReason: string | undefined;
 
-        return { output: stdout.trim() };
-    } catch (error: any) {
-        return { 
-            error: error.message.includes('ETIMEDOUT') 
-                ? 'Execution timed out' 
-                : error.message 
+        const stop = (reason: string) => {
+            stopReason ??= reason;
+            child.kill('SIGKILL');
         };
-    } finally {
-        // Cleanup: Delete temporary file
-        try {
-            await unlink(tempFileName);
-        } catch (e) {
-            console.error('Failed to cleanup temporary file:', e);
-        }
+        const collect = (chunks: Buffer[]) => (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > OUTPUT_LIMIT_BYTES) {
+                stop('Output limit exceeded');
+            } else {
+                chunks.push(chunk);
+            }
+        };
+        const onAbort = () => stop('Execution cancelled');
+        const timer = setTimeout(() => stop('Execution timed out'), timeoutMs);
+        const cleanup = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        };
+
+        child.stdout.on('data', collect(stdout));
+        child.stderr.on('data', collect(stderr));
+        signal?.addEventListener('abort', onAbort, { once: true });
+        if (signal?.aborted) onAbort();
+        child.on('error', error => {
+            cleanup();
+            reject(error);
+        });
+        child.on('close', (exitCode, exitSignal) => {
+            cleanup();
+            resolve({
+                stdout: Buffer.concat(stdout).toString('utf8'),
+                stderr: Buffer.concat(stderr).toString('utf8'),
+                exitCode,
+                exitSignal,
+                stopReason,
+                timedOut: stopReason === 'Execution timed out',
+                outputExceeded: stopReason === 'Output limit exceeded',
+            });
+        });
+    });
+}
+
+type Usage = { peakMemoryMb?: number; issues: ValidationIssue[] };
+
+// Peak memory and validation issues as the worker recorded them; missing when the process was killed first
+async function readUsage(usagePath: string): Promise<Usage> {
+    try {
+        const { peakMemoryKb, issues } = JSON.parse(await readFile(usagePath, 'utf-8'));
+        return { peakMemoryMb: kilobytesToMb(peakMemoryKb), issues };
+    } catch {
+        return { issues: [] };
     }
-}
\ No newline at end of file
+}
+
+// Assembles the result of a finished process; peak memory comes from the usage file the interpreter wrote
+async function processRun(exit: ProcessExit, usagePath: string, startedAt: number, outputChars: number): Promise<ProcessRun> {
+    const wallTimeMs = Date.now() - startedAt;
+    const { peakMemoryMb, issues } = await readUsage(usagePath);
+    if (issues.length > 0) {
+        return notRun(formatIssues(issues), startedAt);
+    }
+
+    const stdout = capStream(exit.stdout, outputChars);
+    const stderr = capStream(exit.stderr, outputChars);
+
+    const error = exit.stopReason
+        ?? (exit.exitSignal === 'SIGXCPU' ? 'CPU time limit exceeded' : undefined)
+        ?? (exit.exitSignal ? `Python was stopped by ${exit.exitSignal}` : undefined);
+    return {
+        stdout: stdout.text,
+        stderr: stderr.text,
+        exitCode: exit.exitCode,
+        wallTimeMs,
+        ...(peakMemoryMb !== undefined ? { peakMemoryMb } : {}),
+        timedOut: exit.timedOut,
+        truncated: exit.outputExceeded || stdout.truncated || stderr.truncated,
+        ...(error ? { error } : {}),
+    };
+}
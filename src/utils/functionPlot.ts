@@ -0,0 +1,181 @@
+import { ChartConfiguration } from 'chart.js';
+import { CHART_PALETTES } from './chartUtils';
+import { compileExpression, Evaluator } from './mathExpression';
+
+export interface PlotSeries {
+  expression: string;
+  label?: string;
+}
+
+export interface FunctionPlotOptions {
+  series: PlotSeries[];
+  variable: string;
+  domain: { min: number; max: number };
+  samples: number;
+  // 'points' draws unconnected markers instead of a curve
+  style: 'line' | 'points';
+  yRange?: { min: number; max: number };
+  xTitle?: string;
+  yTitle?: string;
+}
+
+// A null y is a gap in the curve
+type Point = { x: number; y: number | null };
+
+// Halvings used to tell a jump discontinuity or asymptote from a steep but continuous stretch
+const BISECTION_STEPS = 30;
+
+// A continuous function's jump shrinks towards zero as the interval is halved; a break keeps it
+function breaksBetween(evaluate: Evaluator, x1: number, y1: number, x2: number, y2: number): boolean {
+  const initialJump = Math.abs(y2 - y1);
+  for (let step = 0; step < BISECTION_STEPS; step++) {
+    const middle = (x1 + x2) / 2;
+    const y = evaluate(middle);
+    if (!Number.isFinite(y)) return true;
+    if (Math.abs(y - y1) > Math.abs(y2 - y)) {
+      [x2, y2] = [middle, y];
+    } else {
+      [x1, y1] = [middle, y];
+    }
+  }
+  return Math.abs(y2 - y1) > initialJump / 4;
+}
+
+function quantile(sorted: number[], fraction: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+}
+
+// Samples evenly across the domain; points with a null y are gaps where the function is undefined or jumps.
+// Null rather than NaN, since the chart reaches the browser as JSON, which turns NaN into null anyway.
+function sample(evaluate: Evaluator, { min, max }: FunctionPlotOptions['domain'], samples: number): Point[] {
+  const points = Array.from({ length: samples }, (_, index) => {
+    const x = min + ((max - min) * index) / (samples - 1);
+    return { x, y: evaluate(x) };
+  });
+
+  const finite = points.map(point => point.y).filter(Number.isFinite).sort((a, b) => a - b);
+  if (finite.length === 0) return [];
+  // Only jumps that are large against the typical spread of values are worth checking
+  const spread = quantile(finite, 0.95) - quantile(finite, 0.05) || 1;
+
+  const result: Point[] = [];
+  points.forEach((point, index) => {
+    if (!Number.isFinite(point.y)) {
+      if (result.length > 0 && result[result.length - 1].y !== null) result.push({ x: point.x, y: null });
+      return;
+    }
+    const previous = points[index - 1];
+    if (
+      previous && Number.isFinite(previous.y)
+      && Math.abs(point.y - previous.y) > spread / 10
+      && breaksBetween(evaluate, previous.x, previous.y, point.x, point.y)
+    ) {
+      result.push({ x: (previous.x + point.x) / 2, y: null });
+    }
+    result.push(point);
+  });
+  return result;
+}
+
+const finiteValues = (points: Point[]) => points.map(point => point.y).filter((y): y is number => y !== null);
+
+// Near an asymptote a few samples reach huge values; fit the axis to the bulk of the curve instead
+function robustYRange(values: number[]): { min: number; max: number } | undefined {
+  const sorted = [...values].sort((a, b) => a - b);
+  if (sorted.length === 0) return undefined;
+
+  const low = quantile(sorted, 0.02);
+  const high = quantile(sorted, 0.98);
+  const span = high - low || 1;
+  if (sorted[0] >= low - span && sorted[sorted.length - 1] <= high + span) return undefined;
+  return { min: low - span * 0.1, max: high + span * 0.1 };
+}
+
+// Throws if an expression does not parse
+export function plotFunctions(options: FunctionPlotOptions): ChartConfiguration<'line'> {
+  const { series, variable, domain, samples, style, xTitle, yTitle } = options;
+
+  const datasets = series.map(({ expression, label }, index) => {
+    const color = CHART_PALETTES.default[index % CHART_PALETTES.default.length];
+    return {
+      label: label ?? `y = ${expression}`,
+      data: sample(compileExpression(expression, variable), domain, samples),
+      borderColor: color,
+      backgroundColor: color,
+      borderWidth: 2,
+      pointRadius: style === 'points' ? 2 : 0,
+      showLine: style === 'line',
+      spanGaps: false,
+    };
+  });
+
+  const yValues = datasets.flatMap(dataset => finiteValues(dataset.data));
+  const yRange = options.yRange ?? robustYRange(yValues);
+
+  return {
+    type: 'line',
+    data: { datasets },
+    options: {
+      responsive: true,
+      parsing: false,
+      interaction: { mode: 'nearest', intersect: false },
+      scales: {
+        x: {
+          type: 'linear',
+          min: domain.min,
+          max: domain.max,
+          title: { display: true, text: xTitle ?? variable },
+        },
+        y: {
+          type: 'linear',
+          ...yRange,
+          title: { display: true, text: yTitle ?? (series.length === 1 ? `y = ${series[0].expression}` : 'y') },
+        },
+      },
+      plugins: {
+        legend: { display: series.length > 1 },
+      },
+    },
+  };
+}
+
+export interface PlotSummary {
+  domain: { min: number; max: number };
+  // The visible y interval; null when Chart.js fits it to the curves
+  yRange: { min: number; max: number } | null;
+  series: {
+    label: string;
+    // The part of the domain the curve covers; less than the domain when the function is undefined at an end
+    xRange: { min: number; max: number } | null;
+    // Where the curve breaks, at discontinuities, asymptotes or where it is undefined
+    gaps: number[];
+    // Smallest and largest value plotted; null when the function is undefined across the domain
+    yRange: { min: number; max: number } | null;
+  }[];
+}
+
+// Gaps listed per series; a function like tan(x) over a wide domain has many
+const MAX_GAPS = 20;
+
+const round = (value: number) => Number(value.toPrecision(4));
+
+// What the model needs to describe the plot, without the sampled points
+export function summarizePlot(chart: ChartConfiguration<'line'>): PlotSummary {
+  const { x, y } = chart.options?.scales ?? {};
+  return {
+    domain: { min: Number(x?.min), max: Number(x?.max) },
+    yRange: y?.min !== undefined && y?.max !== undefined ? { min: round(Number(y.min)), max: round(Number(y.max)) } : null,
+    series: chart.data.datasets.map(dataset => {
+      // plotFunctions only emits points
+      const points = dataset.data as Point[];
+      const values = finiteValues(points);
+      const defined = points.filter(point => point.y !== null);
+      return {
+        label: dataset.label ?? '',
+        xRange: defined.length > 0 ? { min: round(defined[0].x), max: round(defined[defined.length - 1].x) } : null,
+        gaps: points.filter(point => point.y === null).slice(0, MAX_GAPS).map(point => round(point.x)),
+        yRange: values.length > 0 ? { min: round(Math.min(...values)), max: round(Math.max(...values)) } : null,
+      };
+    }),
+  };
+}
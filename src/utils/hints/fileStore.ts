@@ -0,0 +1,35 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import crypto from 'crypto';
+import { HintStore } from './types';
+
+// Keys are SHA-256 hex digests; anything else is rejected before it reaches the filesystem
+const HINT_KEY_PATTERN = /^[0-9a-f]{64}$/;
+
+// Stores one JSON file per ladder under `directory`
+export function createFileHintStore(directory = process.env.HINTS_DIR || join(process.cwd(), '.data', 'hints')): HintStore {
+  const ladderPath = (key: string) => join(directory, `${key}.json`);
+
+  return {
+    async get(key) {
+      if (!HINT_KEY_PATTERN.test(key)) return null;
+      try {
+        return JSON.parse(await readFile(ladderPath(key), 'utf-8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async save(key, ladder) {
+      if (!HINT_KEY_PATTERN.test(key)) {
+        throw new Error('Invalid hint key');
+      }
+      await mkdir(directory, { recursive: true });
+      const tempPath = `${ladderPath(key)}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+      await writeFile(tempPath, JSON.stringify(ladder), 'utf-8');
+      await rename(tempPath, ladderPath(key));
+      return ladder;
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { generateText, LLMProvider } from '../llm';
+import { LearnerProfile, profileInstruction } from '../learnerProfile';
+import { Hint, HINT_LEVELS } from './types';
+
+const LADDER_INSTRUCTION = `You write hint ladders for a math tutor. For the student's problem, write exactly four hints, each revealing more than the one before:
+1. "nudge": a question or observation that points at what to notice, without naming the method.
+2. "strategy": the method or rule to use and how to set the problem up.
+3. "partial": carry out the first part of the computation and stop before the final answer.
+4. "solution": the complete worked solution ending with the final answer.
+Each hint must make sense on its own after the earlier ones. Write math in LaTeX between $ signs.
+Output JSON only: {"hints": [{"level": "nudge", "text": "..."}, {"level": "strategy", "text": "..."}, {"level": "partial", "text": "..."}, {"level": "solution", "text": "..."}]}`;
+
+const ladderSchema = z.object({
+  hints: z.array(z.object({ level: z.enum(HINT_LEVELS), text: z.string().trim().min(1) }))
+    .length(HINT_LEVELS.length)
+    .refine(hints => hints.every((hint, index) => hint.level === HINT_LEVELS[index]), 'Hints must follow the ladder order'),
+});
+
+// Asks the model for the full ladder in one go so later hints stay consistent with earlier ones
+export async function generateHintLadder(provider: LLMProvider, problem: string, profile: LearnerProfile): Promise<Hint[]> {
+  const text = await generateText(
+    provider,
+    `${LADDER_INSTRUCTION}\n\n${profileInstruction(profile)}`,
+    problem,
+    { temperature: 0.3 },
+  );
+
+  let json: unknown;
+  try {
+    // Models often wrap JSON in a code fence even when told not to
+    json = JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    throw new Error('Hint ladder is not valid JSON');
+  }
+
+  const parsed = ladderSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`Invalid hint ladder: ${parsed.error.issues.map(issue => issue.message).join(', ')}`);
+  }
+  return parsed.data.hints;
+}
@@ -0,0 +1,57 @@
+import crypto from 'crypto';
+import type { LLMProvider } from '../llm';
+import type { LearnerProfile } from '../learnerProfile';
+import type { StoredMessage } from '../sessions';
+import type { Quiz } from '../tools/generateQuiz';
+import { createFileHintStore } from './fileStore';
+import { generateHintLadder } from './generate';
+import { HintLadder, HintStore, QUIZ_ANSWER_PREFIX, quizProblem } from './types';
+
+export * from './types';
+
+let store: HintStore | null = null;
+
+export function getHintStore(): HintStore {
+  if (!store) {
+    store = createFileHintStore();
+  }
+  return store;
+}
+
+// Ladders are pitched at the learner's level and language, so those are part of the key
+function hintKey(problem: string, { gradeBand, language }: LearnerProfile): string {
+  const normalized = problem.trim().replace(/\s+/g, ' ').toLowerCase();
+  return crypto.createHash('sha256').update(JSON.stringify([gradeBand, language.toLowerCase(), normalized])).digest('hex');
+}
+
+// Generations in progress, so a double click does not ask the model twice
+const pending = new Map<string, Promise<HintLadder>>();
+
+// Returns the cached ladder for `problem`, generating and storing it on first use
+export async function hintLadderFor(provider: LLMProvider, problem: string, profile: LearnerProfile): Promise<HintLadder> {
+  const key = hintKey(problem, profile);
+  const cached = await getHintStore().get(key);
+  if (cached) return cached;
+
+  let ladder = pending.get(key);
+  if (!ladder) {
+    ladder = generateHintLadder(provider, problem, profile)
+      .then(hints => getHintStore().save(key, { problem, hints, createdAt: new Date().toISOString() }))
+      .finally(() => pending.delete(key));
+    pending.set(key, ladder);
+  }
+  return ladder;
+}
+
+// What the hints recorded on `message` are about: the quiz it poses, or else the question it answers.
+// Null when the message takes no hints, e.g. a reply to a quiz answer, whose hints are recorded on the quiz.
+export function hintProblem(messages: StoredMessage[], message: StoredMessage): string | null {
+  const quiz = [...(message.functionOutputs ?? [])].reverse().find(output => output.kind === 'quiz')?.output as Quiz | undefined;
+  if (quiz) return quizProblem(quiz);
+
+  const question = messages.find(candidate => candidate.id === message.parentId);
+  if (message.role !== 'assistant' || question?.role !== 'user' || question.content.startsWith(QUIZ_ANSWER_PREFIX)) {
+    return null;
+  }
+  return question.content;
+}
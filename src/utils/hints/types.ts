@@ -0,0 +1,27 @@
+// Rungs of the ladder, from least to most revealing; hints are unlocked in this order
+export const HINT_LEVELS = ['nudge', 'strategy', 'partial', 'solution'] as const;
+export type HintLevel = typeof HINT_LEVELS[number];
+
+// Starts the message that submits a quiz answer; the tutor's reply to it is hinted through the quiz
+export const QUIZ_ANSWER_PREFIX = 'My answer to the quiz';
+
+// Hints have to cover the options too, or they cannot point at the right one
+export const quizProblem = (quiz: { question: string; options?: string[] }) =>
+  quiz.options?.length ? `${quiz.question}\nOptions: ${quiz.options.join('; ')}` : quiz.question;
+
+export interface Hint {
+  level: HintLevel;
+  text: string;
+}
+
+export interface HintLadder {
+  problem: string;
+  hints: Hint[];
+  createdAt: string;
+}
+
+// Cache of generated ladders, keyed by a hash of the problem and the learner's level
+export interface HintStore {
+  get(key: string): Promise<HintLadder | null>;
+  save(key: string, ladder: HintLadder): Promise<HintLadder>;
+}
@@ -0,0 +1,121 @@
+import { ChatTurn, generateText, LLMProvider } from './llm';
+import { ClientMessage, toChatHistory } from './chatHistory';
+
+// Rolling summary of the oldest messages, which are then left out of the replayed history
+export interface HistorySummary {
+  text: string;
+  // Number of leading messages the summary stands in for
+  coveredMessageCount: number;
+  // Last covered message, so a summary written for one branch is not reused on another
+  lastMessageId?: string;
+}
+
+export interface BudgetedHistory {
+  history: ChatTurn[];
+  summary?: HistorySummary;
+  // Set when this call folded more messages into the summary
+  summarized: boolean;
+}
+
+const HISTORY_TOKEN_BUDGET = Number(process.env.CHAT_HISTORY_TOKEN_BUDGET) || 24000;
+const KEEP_RECENT_MESSAGES = Number(process.env.CHAT_HISTORY_KEEP_RECENT) || 6;
+
+const SUMMARY_INSTRUCTION = `You maintain running notes on a math tutoring conversation. Merge the previous notes with the new transcript into one concise summary. Keep every problem the student worked on, the final answers and methods, the student's stated level and misconceptions, and any results of code that was run. Write LaTeX for math. Do not address the student.`;
+
+// Rough count for mixed English and LaTeX; tokenizers vary too much between providers to do better cheaply
+export function estimateTokens(turns: ChatTurn[]): number {
+  return Math.ceil(JSON.stringify(turns).length / 4);
+}
+
+function summaryTokens(summary?: HistorySummary): number {
+  return summary ? Math.ceil(summary.text.length / 4) : 0;
+}
+
+// The most recent quiz stays verbatim so the model can still mark the student's answer
+function findActiveQuiz(messages: ClientMessage[]): number {
+  for (let index = messages.length - 1; index >= 0; index--) {
+    if (messages[index].functionOutputs?.some(({ kind }) => kind === 'quiz')) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+function toTranscript(messages: ClientMessage[]): string {
+  return messages.map(message => {
+    const calls = message.turns
+      ?.flatMap(turn => turn.parts)
+      .flatMap(part => {
+        if (part.functionCall) return [`[called ${part.functionCall.name}: ${JSON.stringify(part.functionCall.args)}]`];
+        if (part.functionResponse) return [`[${part.functionResponse.name} returned: ${JSON.stringify(part.functionResponse.response).slice(0, 500)}]`];
+        return [];
+      }) ?? [];
+    const speaker = message.role === 'user' ? 'Student' : 'Tutor';
+    return [`${speaker}: ${message.content}`, ...calls].join('\n');
+  }).join('\n\n');
+}
+
+// Keeps the replayed history under budget by folding older turns into a model-written summary
+export async function budgetHistory(
+  provider: LLMProvider,
+  messages: ClientMessage[],
+  summary?: HistorySummary,
+): Promise<BudgetedHistory> {
+  const covered = summary?.coveredMessageCount ?? 0;
+  const quizIndex = findActiveQuiz(messages);
+
+  const build = (coveredCount: number) => {
+    // A quiz that has already been folded into the summary is replayed with the question that prompted it
+    const pinned = quizIndex >= 0 && quizIndex < coveredCount
+      ? messages.slice(Math.max(quizIndex - 1, 0), quizIndex + 1)
+      : [];
+    return toChatHistory([...pinned, ...messages.slice(coveredCount)]);
+  };
+
+  const history = build(covered);
+  if (estimateTokens(history) + summaryTokens(summary) <= HISTORY_TOKEN_BUDGET) {
+    return { history, summary, summarized: false };
+  }
+
+  // Keep the most recent messages, starting on a user message so the replay opens with the student
+  let keepFrom = Math.max(messages.length - KEEP_RECENT_MESSAGES, covered);
+  while (keepFrom < messages.length && messages[keepFrom].role !== 'user') {
+    keepFrom++;
+  }
+  if (keepFrom <= covered) {
+    return { history, summary, summarized: false };
+  }
+
+  const folded = messages
+    .slice(covered, keepFrom)
+    .filter((_, offset) => {
+      const index = covered + offset;
+      return index !== quizIndex && index !== quizIndex - 1;
+    });
+
+  const prompt = [
+    summary ? `Previous notes:\n${summary.text}` : 'Previous notes: (none)',
+    `New transcript:\n${toTranscript(folded)}`,
+  ].join('\n\n');
+
+  let text = '';
+  try {
+    text = await generateText(provider, SUMMARY_INSTRUCTION, prompt, { temperature: 0.2 });
+  } catch (error) {
+    // A failed summary must not fail the student's turn
+    console.error('Failed to summarize the conversation history:', error);
+  }
+  if (!text) {
+    // Fall back to a clipped transcript rather than silently dropping context
+    text = [summary?.text, toTranscript(folded)].filter(Boolean).join('\n\n').slice(-HISTORY_TOKEN_BUDGET);
+  }
+
+  const nextSummary = { text, coveredMessageCount: keepFrom };
+  return { history: build(keepFrom), summary: nextSummary, summarized: true };
+}
+
+export function summaryInstruction(summary?: HistorySummary): string {
+  return summary
+    ? `\n\nSummary of the earlier part of this conversation (older messages are not shown):\n${summary.text}`
+    : '';
+}
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+
+// Shared by the profile API, the chat route and the settings sheet
+
+export const GRADE_BANDS = ['middleSchool', 'earlyHighSchool', 'lateHighSchool', 'university'] as const;
+export const CURRICULA = ['commonCore', 'ib', 'aLevel', 'other'] as const;
+export const DERIVATIVE_NOTATIONS = ['leibniz', 'lagrange'] as const;
+export const DECIMAL_SEPARATORS = ['point', 'comma'] as const;
+
+export type GradeBand = typeof GRADE_BANDS[number];
+export type Curriculum = typeof CURRICULA[number];
+export type QuizDifficulty = 'foundation' | 'standard' | 'advanced' | 'university';
+
+export const gradeBandLabels: Record<GradeBand, string> = {
+  middleSchool: 'Grades 6-8',
+  earlyHighSchool: 'Grades 9-10',
+  lateHighSchool: 'Grades 11-12',
+  university: 'University',
+};
+
+export const curriculumLabels: Record<Curriculum, string> = {
+  commonCore: 'Common Core',
+  ib: 'IB',
+  aLevel: 'A-level',
+  other: 'Other',
+};
+
+export const derivativeNotationLabels: Record<typeof DERIVATIVE_NOTATIONS[number], string> = {
+  leibniz: 'Leibniz (dy/dx)',
+  lagrange: "Lagrange (f'(x))",
+};
+
+export const decimalSeparatorLabels: Record<typeof DECIMAL_SEPARATORS[number], string> = {
+  point: 'Decimal point (3.14)',
+  comma: 'Decimal comma (3,14)',
+};
+
+export const learnerProfileSchema = z.object({
+  gradeBand: z.enum(GRADE_BANDS),
+  curriculum: z.enum(CURRICULA),
+  derivativeNotation: z.enum(DERIVATIVE_NOTATIONS),
+  decimalSeparator: z.enum(DECIMAL_SEPARATORS),
+  language: z.string().trim().min(2).max(40),
+});
+
+export type LearnerProfile = z.infer<typeof learnerProfileSchema>;
+
+export const DEFAULT_LEARNER_PROFILE: LearnerProfile = {
+  gradeBand: 'lateHighSchool',
+  curriculum: 'commonCore',
+  derivativeNotation: 'leibniz',
+  decimalSeparator: 'point',
+  language: 'English',
+};
+
+const quizDifficulties: Record<GradeBand, QuizDifficulty> = {
+  middleSchool: 'foundation',
+  earlyHighSchool: 'standard',
+  lateHighSchool: 'advanced',
+  university: 'university',
+};
+
+export function quizDifficulty(profile: LearnerProfile): QuizDifficulty {
+  return quizDifficulties[profile.gradeBand];
+}
+
+// System-instruction fragment that pitches explanations at the learner's level
+export function profileInstruction(profile: LearnerProfile): string {
+  return `LEARNER PROFILE:
+- Level: ${gradeBandLabels[profile.gradeBand]}. Match vocabulary, rigour and the size of each step to this level; do not use techniques the student has not met yet unless asked.
+- Curriculum: ${curriculumLabels[profile.curriculum]}. Follow its conventions and terminology.
+- Notation: write derivatives in ${derivativeNotationLabels[profile.derivativeNotation]} notation and use a ${profile.decimalSeparator === 'comma' ? 'decimal comma' : 'decimal point'}.
+- Language: reply in ${profile.language}.
+- Quizzes from generateQuiz must be at ${quizDifficulty(profile)} difficulty for this level.`;
+}
@@ -0,0 +1,137 @@
+import {
+  GoogleGenerativeAI,
+  HarmCategory,
+  HarmBlockThreshold,
+  FunctionCallingMode,
+  Content,
+  EnhancedGenerateContentResponse,
+  FunctionDeclaration,
+  Part,
+  Schema,
+  SchemaType,
+} from "@google/generative-ai";
+import {
+  ChatPart,
+  ChatSessionOptions,
+  FunctionCallPart,
+  LLMChatSession,
+  LLMProvider,
+  SendMessageOptions,
+  ToolDeclaration,
+  ToolParameterSchema,
+} from './types';
+
+const DEFAULT_GEMINI_MODEL = 'gemini-exp-1206';
+
+const safetySettings = [
+  {
+    category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+    threshold: HarmBlockThreshold.BLOCK_NONE,
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+    threshold: HarmBlockThreshold.BLOCK_NONE,
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+    threshold: HarmBlockThreshold.BLOCK_NONE,
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+    threshold: HarmBlockThreshold.BLOCK_NONE,
+  },
+];
+
+// Pulls the text parts out of a response without throwing on function-call-only chunks
+function responseText(response: EnhancedGenerateContentResponse): string {
+  return response.candidates?.[0]?.content?.parts
+    ?.map(part => part.text ?? '')
+    .join('') ?? '';
+}
+
+function responseFunctionCalls(response: EnhancedGenerateContentResponse): FunctionCallPart[] {
+  return (response.functionCalls() ?? []).map(({ name, args }) => ({
+    name,
+    args: args as Record<string, unknown>,
+  }));
+}
+
+const SCHEMA_TYPES: Record<ToolParameterSchema['type'], SchemaType> = {
+  object: SchemaType.OBJECT,
+  string: SchemaType.STRING,
+  number: SchemaType.NUMBER,
+  integer: SchemaType.INTEGER,
+  boolean: SchemaType.BOOLEAN,
+  array: SchemaType.ARRAY,
+};
+
+function toSchema({ type, items, properties, ...rest }: ToolParameterSchema): Schema {
+  return {
+    ...rest,
+    type: SCHEMA_TYPES[type],
+    items: items && toSchema(items),
+    properties: properties && Object.fromEntries(Object.entries(properties).map(([name, property]) => [name, toSchema(property)])),
+  };
+}
+
+function toFunctionDeclaration({ name, description, parameters }: ToolDeclaration): FunctionDeclaration {
+  const { type, properties, ...schema } = toSchema(parameters);
+  return { name, description, parameters: { ...schema, type: type ?? SchemaType.OBJECT, properties: properties ?? {} } };
+}
+
+export function createGeminiProvider(
+  apiKey = process.env.GEMINI_API_KEY,
+  modelName = process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL,
+): LLMProvider {
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY is not set; set LLM_PROVIDER=mock to run without it');
+  }
+
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  return {
+    name: 'gemini',
+    startChat({ systemInstruction, tools, history, generationConfig }: ChatSessionOptions): LLMChatSession {
+      const model = genAI.getGenerativeModel({
+        model: modelName,
+        systemInstruction,
+        tools: tools.length > 0
+          ? [{ functionDeclarations: tools.map(toFunctionDeclaration) }]
+          : undefined,
+        safetySettings,
+        toolConfig: { functionCallingConfig: { mode: FunctionCallingMode.AUTO } },
+      });
+
+      const chatSession = model.startChat({
+        generationConfig,
+        history: history as Content[],
+      });
+
+      return {
+        async sendMessageStream(message: string | ChatPart[], { signal }: SendMessageOptions = {}) {
+          const result = await chatSession.sendMessageStream(message as string | Part[], { signal });
+
+          async function* textDeltas() {
+            for await (const chunk of result.stream) {
+              const delta = responseText(chunk);
+              if (delta) {
+                yield delta;
+              }
+            }
+          }
+
+          const response = result.response.then(response => ({
+            text: responseText(response),
+            functionCalls: responseFunctionCalls(response),
+          }));
+          // Callers only await the response after the stream ends cleanly; when the stream fails, e.g. because the
+          // student stopped the reply, it rejects too and nobody awaits it. Handling it here keeps that rejection
+          // from going unhandled, while a caller that does await it still gets the error.
+          response.catch(() => undefined);
+
+          return { stream: textDeltas(), response };
+        },
+      };
+    },
+  };
+}
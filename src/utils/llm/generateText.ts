@@ -0,0 +1,14 @@
+import { GenerationConfig, LLMProvider, SendMessageOptions } from './types';
+
+// One-shot, tool-free completion for internal jobs such as summarising history
+export async function generateText(
+  provider: LLMProvider,
+  systemInstruction: string,
+  prompt: string,
+  generationConfig?: GenerationConfig,
+  options?: SendMessageOptions,
+): Promise<string> {
+  const session = provider.startChat({ systemInstruction, tools: [], history: [], generationConfig });
+  const result = await session.sendMessageStream(prompt, options);
+  return (await result.response).text.trim();
+}
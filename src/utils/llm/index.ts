@@ -0,0 +1,26 @@
+import { createGeminiProvider } from './gemini';
+import { createMockProvider } from './mock';
+import { LLMProvider } from './types';
+
+export * from './types';
+export { generateText } from './generateText';
+
+let provider: LLMProvider | null = null;
+
+// Picks the provider named by LLM_PROVIDER ("gemini" by default, "mock" for offline work)
+export function getProvider(): LLMProvider {
+  if (!provider) {
+    const name = process.env.LLM_PROVIDER || 'gemini';
+    switch (name) {
+      case 'gemini':
+        provider = createGeminiProvider();
+        break;
+      case 'mock':
+        provider = createMockProvider();
+        break;
+      default:
+        throw new Error(`Unknown LLM_PROVIDER: ${name}`);
+    }
+  }
+  return provider;
+}
@@ -0,0 +1,87 @@
+import { readFileSync } from 'fs';
+import { ChatPart, ChatSessionOptions, FunctionCallPart, LLMChatSession, LLMProvider, ModelResponse, SendMessageOptions } from './types';
+
+// One scripted model turn: some text, some function calls, or both
+export interface MockTurn {
+  text?: string;
+  functionCalls?: FunctionCallPart[];
+}
+
+// Exercises the full tool-dispatch path: compute, chart, then explain
+const DEFAULT_SCRIPT: MockTurn[] = [
+  {
+    functionCalls: [
+      { name: 'runPython', args: { code: 'print([n ** 2 for n in range(1, 6)])' } },
+    ],
+  },
+  {
+    functionCalls: [
+      {
+        name: 'getChart',
+        args: {
+          type: 'bar',
+          title: 'The first five square numbers',
+          labels: ['1', '2', '3', '4', '5'],
+          datasets: [{ label: 'n²', data: [1, 4, 9, 16, 25] }],
+          xAxis: { title: 'n' },
+        },
+      },
+    ],
+  },
+  {
+    text: 'The first five square numbers are $1, 4, 9, 16, 25$. Each one is $n^2$, so the gap between neighbours grows by $2n + 1$:\n\n$$ (n + 1)^2 - n^2 = 2n + 1 $$',
+  },
+];
+
+function loadScript(scriptPath = process.env.MOCK_LLM_SCRIPT): MockTurn[] {
+  if (!scriptPath) {
+    return DEFAULT_SCRIPT;
+  }
+
+  const script = JSON.parse(readFileSync(scriptPath, 'utf-8'));
+  if (!Array.isArray(script) || script.length === 0) {
+    throw new Error(`Mock LLM script ${scriptPath} must be a non-empty array of turns`);
+  }
+  return script;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Replays canned turns so the chat flow runs without network access or an API key
+export function createMockProvider(
+  script: MockTurn[] = loadScript(),
+  chunkDelayMs = Number(process.env.MOCK_LLM_DELAY_MS ?? 20),
+): LLMProvider {
+  return {
+    name: 'mock',
+    startChat({ history }: ChatSessionOptions): LLMChatSession {
+      // Resume the script where the replayed history left off
+      let cursor = history.filter(turn => turn.role === 'model').length;
+
+      return {
+        async sendMessageStream(_message: string | ChatPart[], { signal }: SendMessageOptions = {}) {
+          signal?.throwIfAborted();
+          const turn = script[cursor++ % script.length];
+          const response: ModelResponse = {
+            text: turn.text ?? '',
+            functionCalls: turn.functionCalls ?? [],
+          };
+          const chunks = response.text.match(/\S+\s*/g) ?? [];
+
+          async function* textDeltas() {
+            for (const chunk of chunks) {
+              await delay(chunkDelayMs);
+              signal?.throwIfAborted();
+              yield chunk;
+            }
+          }
+
+          return {
+            stream: textDeltas(),
+            response: Promise.resolve(response),
+          };
+        },
+      };
+    },
+  };
+}
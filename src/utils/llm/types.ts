@@ -0,0 +1,81 @@
+// Provider-neutral shapes for chat turns, tool declarations and streamed replies
+
+export interface FunctionCallPart {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface FunctionResponsePart {
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface ChatPart {
+  text?: string;
+  functionCall?: FunctionCallPart;
+  functionResponse?: FunctionResponsePart;
+}
+
+export type ChatRole = 'user' | 'model' | 'function';
+
+export interface ChatTurn {
+  role: ChatRole;
+  parts: ChatPart[];
+}
+
+// JSON-schema subset understood by every provider's function-calling API
+export interface ToolParameterSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  enum?: string[];
+  items?: ToolParameterSchema;
+  properties?: Record<string, ToolParameterSchema>;
+  required?: string[];
+  nullable?: boolean;
+}
+
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: ToolParameterSchema;
+}
+
+export interface GenerationConfig {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+}
+
+export interface ChatSessionOptions {
+  systemInstruction: string;
+  tools: ToolDeclaration[];
+  history: ChatTurn[];
+  generationConfig?: GenerationConfig;
+}
+
+export interface ModelResponse {
+  text: string;
+  functionCalls: FunctionCallPart[];
+}
+
+export interface ChatStreamResult {
+  // Text deltas in arrival order
+  stream: AsyncIterable<string>;
+  // Resolves with the aggregated reply once the stream has finished
+  response: Promise<ModelResponse>;
+}
+
+export interface SendMessageOptions {
+  // Aborts the provider request; the stream then rejects with an AbortError
+  signal?: AbortSignal;
+}
+
+export interface LLMChatSession {
+  sendMessageStream(message: string | ChatPart[], options?: SendMessageOptions): Promise<ChatStreamResult>;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  startChat(options: ChatSessionOptions): LLMChatSession;
+}
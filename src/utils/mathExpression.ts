@@ -0,0 +1,215 @@
+// Parses arithmetic in one variable, such as "sin(x)/x" or "2x^2 - 3", into a plain evaluator.
+// Expressions are interpreted from a syntax tree and never passed to eval, so model input stays data.
+
+type Node =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable' }
+  | { kind: 'unary'; operand: Node }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: Node; right: Node }
+  | { kind: 'call'; name: string; argument: Node };
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'name'; value: string; position: number }
+  | { type: 'symbol'; value: string; position: number };
+
+const FUNCTIONS: Record<string, (value: number) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  sinh: Math.sinh,
+  cosh: Math.cosh,
+  tanh: Math.tanh,
+  exp: Math.exp,
+  // Natural logarithm, as in SymPy
+  log: Math.log,
+  ln: Math.log,
+  log10: Math.log10,
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sign: Math.sign,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+export type Evaluator = (value: number) => number;
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < text.length) {
+    const rest = text.slice(position);
+    const space = /^\s+/.exec(rest);
+    const number = /^(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/i.exec(rest);
+    const name = /^[A-Za-z][A-Za-z0-9]*/.exec(rest);
+
+    if (space) {
+      position += space[0].length;
+    } else if (number) {
+      tokens.push({ type: 'number', value: Number(number[0]), position });
+      position += number[0].length;
+    } else if (name) {
+      tokens.push({ type: 'name', value: name[0], position });
+      position += name[0].length;
+    } else if (rest.startsWith('**')) {
+      tokens.push({ type: 'symbol', value: '^', position });
+      position += 2;
+    } else if ('+-*/^()'.includes(rest[0])) {
+      tokens.push({ type: 'symbol', value: rest[0], position });
+      position += 1;
+    } else {
+      throw new Error(`Unexpected "${rest[0]}" at position ${position + 1}`);
+    }
+  }
+  return tokens;
+}
+
+// Recursive descent; `^` binds tighter than unary minus (-x^2 is -(x^2)) and is right-associative,
+// and juxtaposition such as "2x" or "3(x + 1)" multiplies
+function parse(text: string, variable: string): Node {
+  const tokens = tokenize(text);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isSymbol = (value: string) => peek()?.type === 'symbol' && peek().value === value;
+  const fail = (message: string): never => {
+    const token = peek();
+    throw new Error(token ? `${message} at position ${token.position + 1}` : `${message} at the end of the expression`);
+  };
+  const expect = (value: string) => {
+    if (!isSymbol(value)) fail(`Expected "${value}"`);
+    index++;
+  };
+
+  const startsPrimary = () => {
+    const token = peek();
+    return token !== undefined && (token.type !== 'symbol' || token.value === '(');
+  };
+
+  const primary = (): Node => {
+    const token = peek();
+    if (!token) return fail('Expected a value');
+
+    if (token.type === 'number') {
+      index++;
+      return { kind: 'number', value: token.value };
+    }
+    if (token.type === 'name') {
+      index++;
+      if (token.value === variable) return { kind: 'variable' };
+      if (Object.hasOwn(CONSTANTS, token.value)) return { kind: 'number', value: CONSTANTS[token.value] };
+      if (Object.hasOwn(FUNCTIONS, token.value)) {
+        expect('(');
+        const argument = expression();
+        expect(')');
+        return { kind: 'call', name: token.value, argument };
+      }
+      index--;
+      return fail(`Unknown name "${token.value}"`);
+    }
+    if (token.value === '(') {
+      index++;
+      const inner = expression();
+      expect(')');
+      return inner;
+    }
+    return fail(`Unexpected "${token.value}"`);
+  };
+
+  const power = (): Node => {
+    const base = primary();
+    if (!isSymbol('^')) return base;
+    index++;
+    return { kind: 'binary', operator: '^', left: base, right: unary() };
+  };
+
+  const unary = (): Node => {
+    if (isSymbol('-')) {
+      index++;
+      return { kind: 'unary', operand: unary() };
+    }
+    if (isSymbol('+')) {
+      index++;
+      return unary();
+    }
+    return power();
+  };
+
+  const term = (): Node => {
+    let left = unary();
+    for (;;) {
+      if (isSymbol('*') || isSymbol('/')) {
+        const operator = peek().value as '*' | '/';
+        index++;
+        left = { kind: 'binary', operator, left, right: unary() };
+      } else if (startsPrimary()) {
+        left = { kind: 'binary', operator: '*', left, right: power() };
+      } else {
+        return left;
+      }
+    }
+  };
+
+  const expression = (): Node => {
+    let left = term();
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = peek().value as '+' | '-';
+      index++;
+      left = { kind: 'binary', operator, left, right: term() };
+    }
+    return left;
+  };
+
+  if (tokens.length === 0) throw new Error('Empty expression');
+  const tree = expression();
+  if (index < tokens.length) fail(`Unexpected "${peek().value}"`);
+  return tree;
+}
+
+function compile(node: Node): Evaluator {
+  switch (node.kind) {
+    case 'number': {
+      const { value } = node;
+      return () => value;
+    }
+    case 'variable':
+      return value => value;
+    case 'unary': {
+      const operand = compile(node.operand);
+      return value => -operand(value);
+    }
+    case 'call': {
+      const fn = FUNCTIONS[node.name];
+      const argument = compile(node.argument);
+      return value => fn(argument(value));
+    }
+    case 'binary': {
+      const left = compile(node.left);
+      const right = compile(node.right);
+      switch (node.operator) {
+        case '+': return value => left(value) + right(value);
+        case '-': return value => left(value) - right(value);
+        case '*': return value => left(value) * right(value);
+        case '/': return value => left(value) / right(value);
+        case '^': return value => Math.pow(left(value), right(value));
+      }
+    }
+  }
+}
+
+// Throws with the position of the first problem; the evaluator returns NaN or ±Infinity outside the domain
+export function compileExpression(text: string, variable = 'x'): Evaluator {
+  return compile(parse(text, variable));
+}
+
+export const SUPPORTED_FUNCTIONS = Object.keys(FUNCTIONS);
+
+// Names an expression cannot use as its variable
+export const RESERVED_NAMES = [...SUPPORTED_FUNCTIONS, ...Object.keys(CONSTANTS)];
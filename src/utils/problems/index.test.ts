@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { generateProblem, MAX_SEED, TEMPLATE_IDS } from '.';
+import { createRandom } from './random';
+
+const SEEDS = [0, 1, 42, 123456789, MAX_SEED];
+
+describe('createRandom', () => {
+  it('matches the reference mulberry32 sequence', () => {
+    const random = createRandom(1);
+    expect([random.next(), random.next(), random.next()]).toEqual([0.6270739405881613, 0.002735721180215478, 0.5274470399599522]);
+  });
+
+  it('repeats its sequence for the same seed', () => {
+    const draw = (seed: number) => {
+      const random = createRandom(seed);
+      return [random.int(1, 100), random.pick(['a', 'b', 'c']), random.shuffle([1, 2, 3, 4, 5])];
+    };
+    for (const seed of SEEDS) {
+      expect(draw(seed)).toEqual(draw(seed));
+    }
+    expect(draw(1)).not.toEqual(draw(2));
+  });
+});
+
+describe('generateProblem', () => {
+  it('gives the same problem, answer and option order for the same seed', () => {
+    for (const template of TEMPLATE_IDS) {
+      for (const seed of SEEDS) {
+        expect(generateProblem(template, seed)).toEqual(generateProblem(template, seed));
+      }
+    }
+  });
+
+  it('keeps producing the problems of stored seeds', () => {
+    // Quizzes record their seed, so a change here would give students a different problem for the same quiz
+    expect(generateProblem('linearEquation', 42)).toEqual({
+      template: 'linearEquation',
+      seed: 42,
+      params: { a: 4, b: -14, c: 2 },
+      question: 'Solve for $x$: $4x - 14 = 2$',
+      answer: '4',
+      distractors: ['-3', '16', '-4'],
+      options: ['4', '16', '-4', '-3'],
+    });
+    expect(generateProblem('compoundInterest', 0)).toMatchObject({
+      params: { principal: 6000, rate: 1, years: 5, periods: 1 },
+      answer: '6306.06',
+      options: ['6306.06', '6307.50', '6307.06', '6300.00'],
+    });
+  });
+
+  it('offers the answer among distinct options', () => {
+    for (const template of TEMPLATE_IDS) {
+      for (const seed of SEEDS) {
+        const { answer, distractors, options } = generateProblem(template, seed);
+        expect(distractors).not.toContain(answer);
+        expect([...options].sort()).toEqual([answer, ...distractors].sort());
+        expect(new Set(options).size).toBe(options.length);
+      }
+    }
+  });
+});
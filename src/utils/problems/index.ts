@@ -0,0 +1,65 @@
+import { createRandom, Random, randomSeed } from './random';
+import { problemTemplates, TemplateId } from './templates';
+import { GeneratedProblem, ParameterRange } from './types';
+
+export * from './types';
+export * from './templates';
+export { MAX_SEED } from './random';
+
+// Constraints reject a small share of draws; hitting this means the template itself is broken
+const MAX_ATTEMPTS = 1000;
+
+function valuesOf(range: ParameterRange): number[] {
+  if ('values' in range) return range.values;
+
+  const { min, max, step = 1, exclude = [] } = range;
+  const values: number[] = [];
+  for (let index = 0; min + index * step <= max; index++) {
+    // Rounded so fractional steps such as 0.25 do not accumulate float error
+    const value = Number((min + index * step).toFixed(10));
+    if (!exclude.includes(value)) values.push(value);
+  }
+  return values;
+}
+
+// Pads the template's distractors with near misses so multiple choice always has `count` wrong options
+function distractorsFor(answer: string, candidates: string[], count = 3): string[] {
+  const distractors = [...new Set(candidates)].filter(candidate => candidate !== answer);
+  const value = Number(answer);
+  const decimals = answer.split('.')[1]?.length ?? 0;
+  for (let offset = 1; distractors.length < count && Number.isFinite(value); offset++) {
+    for (const candidate of [value + offset, value - offset].map(near => near.toFixed(decimals))) {
+      if (candidate !== answer && !distractors.includes(candidate)) distractors.push(candidate);
+    }
+  }
+  return distractors.slice(0, count);
+}
+
+function drawParameters(parameters: Record<string, ParameterRange>, random: Random): Record<string, number> {
+  return Object.fromEntries(Object.entries(parameters).map(([name, range]) => [name, random.pick(valuesOf(range))]));
+}
+
+// The same template and seed always produce the same problem, answer and option order
+export function generateProblem(templateId: TemplateId, seed = randomSeed()): GeneratedProblem {
+  const template = problemTemplates[templateId];
+  const random = createRandom(seed);
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const params = drawParameters(template.parameters, random);
+    if (template.constraint && !template.constraint(params)) continue;
+
+    const { question, answer, distractors } = template.render(params);
+    const wrong = distractorsFor(answer, distractors);
+    return {
+      template: templateId,
+      seed,
+      params,
+      question,
+      answer,
+      distractors: wrong,
+      options: random.shuffle([answer, ...wrong]),
+    };
+  }
+
+  throw new Error(`No parameters for template ${templateId} met its constraints`);
+}
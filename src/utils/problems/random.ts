@@ -0,0 +1,45 @@
+// Deterministic generator so a seed always reproduces the same problem
+
+export const MAX_SEED = 2 ** 32 - 1;
+
+export interface Random {
+  // Uniform float in [0, 1)
+  next(): number;
+  // Uniform integer in [min, max]
+  int(min: number, max: number): number;
+  pick<T>(values: readonly T[]): T;
+  shuffle<T>(values: readonly T[]): T[];
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
+// mulberry32: tiny, fast and good enough for picking problem parameters
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+
+  return {
+    next,
+    int,
+    pick: values => values[int(0, values.length - 1)],
+    shuffle: values => {
+      const shuffled = [...values];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = int(0, i);
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return shuffled;
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import { defineTemplate, ProblemTemplate } from './types';
+
+export const TEMPLATE_IDS = ['linearEquation', 'polynomialDerivative', 'compoundInterest'] as const;
+export type TemplateId = typeof TEMPLATE_IDS[number];
+
+// LaTeX for a sum of terms such as [[3, 'x^2'], [-1, 'x'], [4, '']], skipping zero coefficients
+function formatPolynomial(terms: [number, string][]): string {
+  const text = terms
+    .filter(([coefficient]) => coefficient !== 0)
+    .map(([coefficient, power], index) => {
+      const size = Math.abs(coefficient);
+      const body = power && size === 1 ? power : `${size}${power}`;
+      if (index === 0) return coefficient < 0 ? `-${body}` : body;
+      return coefficient < 0 ? ` - ${body}` : ` + ${body}`;
+    })
+    .join('');
+  return text || '0';
+}
+
+const integers = (values: number[]) => values.filter(Number.isInteger).map(String);
+
+const linearEquation = defineTemplate<{ a: number; b: number; c: number }>({
+  topic: 'Linear equations',
+  description: 'solve ax + b = c with an integer solution',
+  parameters: {
+    a: { min: -9, max: 9, exclude: [0, 1] },
+    b: { min: -20, max: 20, exclude: [0] },
+    c: { min: -30, max: 30 },
+  },
+  // Integer roots only
+  constraint: ({ a, b, c }) => (c - b) % a === 0,
+  render: ({ a, b, c }) => ({
+    question: `Solve for $x$: $${formatPolynomial([[a, 'x'], [b, '']])} = ${c}$`,
+    answer: String((c - b) / a),
+    // Moving b across without changing its sign, forgetting to divide, dropping the sign of a
+    distractors: integers([(c + b) / a, c - b, (b - c) / a]),
+  }),
+});
+
+const polynomialDerivative = defineTemplate<{ a: number; b: number; c: number; d: number; k: number }>({
+  topic: 'Derivatives of polynomials',
+  description: "evaluate f'(k) for a cubic f",
+  parameters: {
+    a: { min: -4, max: 4, exclude: [0] },
+    b: { min: -6, max: 6 },
+    c: { min: -9, max: 9 },
+    d: { min: -9, max: 9, exclude: [0] },
+    k: { min: -3, max: 3, exclude: [0] },
+  },
+  render: ({ a, b, c, d, k }) => ({
+    question: `Let $f(x) = ${formatPolynomial([[a, 'x^3'], [b, 'x^2'], [c, 'x'], [d, '']])}$. Find $f'(${k})$.`,
+    answer: String(3 * a * k ** 2 + 2 * b * k + c),
+    // Powers lowered without multiplying, f itself, the constant kept, the linear term dropped
+    distractors: [
+      a * k ** 2 + b * k + c,
+      a * k ** 3 + b * k ** 2 + c * k + d,
+      3 * a * k ** 2 + 2 * b * k + c + d,
+      3 * a * k ** 2 + 2 * b * k,
+    ].map(String),
+  }),
+});
+
+const compoundingLabels: Record<number, string> = { 1: 'annually', 2: 'semi-annually', 4: 'quarterly', 12: 'monthly' };
+
+const compoundInterest = defineTemplate<{ principal: number; rate: number; years: number; periods: number }>({
+  topic: 'Compound interest',
+  description: 'balance after compounding a principal for whole years',
+  parameters: {
+    principal: { min: 1000, max: 20000, step: 500 },
+    rate: { min: 1, max: 8, step: 0.25 },
+    years: { min: 2, max: 15 },
+    periods: { values: [1, 2, 4, 12] },
+  },
+  render: ({ principal, rate, years, periods }) => {
+    const balance = (perPeriod: number, count: number) => (principal * (1 + perPeriod) ** count).toFixed(2);
+    return {
+      question: `An amount of ${principal} is invested at ${rate}% per year, compounded ${compoundingLabels[periods]}. What is the balance after ${years} years? Give your answer to 2 decimal places.`,
+      answer: balance(rate / 100 / periods, periods * years),
+      // Simple interest, compounding once a year, the yearly rate applied every period
+      distractors: [
+        (principal * (1 + (rate / 100) * years)).toFixed(2),
+        periods === 1 ? balance(rate / 1200, 12 * years) : balance(rate / 100, years),
+        balance(rate / 100, periods * years),
+      ],
+    };
+  },
+});
+
+export const problemTemplates: Record<TemplateId, ProblemTemplate> = {
+  linearEquation,
+  polynomialDerivative,
+  compoundInterest,
+};
@@ -0,0 +1,34 @@
+// A parameter is drawn from an evenly spaced range or from a fixed list of values
+export type ParameterRange =
+  | { min: number; max: number; step?: number; exclude?: number[] }
+  | { values: number[] };
+
+export interface RenderedProblem {
+  question: string;
+  // Computed from the parameters, never by the model
+  answer: string;
+  // Plausible wrong answers, e.g. common slips, used as multiple-choice options
+  distractors: string[];
+}
+
+export interface ProblemTemplate<Params extends Record<string, number> = Record<string, number>> {
+  topic: string;
+  description: string;
+  parameters: { [Name in keyof Params]: ParameterRange };
+  // Draws that fail are redrawn from the same generator, so a seed still yields one problem.
+  // Method syntax keeps templates with specific parameters assignable to ProblemTemplate
+  constraint?(params: Params): boolean;
+  render(params: Params): RenderedProblem;
+}
+
+export interface GeneratedProblem extends RenderedProblem {
+  template: string;
+  seed: number;
+  params: Record<string, number>;
+  // The answer and distractors in a seeded order, for multiple choice
+  options: string[];
+}
+
+export function defineTemplate<Params extends Record<string, number>>(template: ProblemTemplate<Params>): ProblemTemplate<Params> {
+  return template;
+}
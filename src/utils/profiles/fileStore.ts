@@ -0,0 +1,36 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import crypto from 'crypto';
+import { learnerProfileSchema } from '../learnerProfile';
+import { ProfileStore } from './types';
+import { isLearnerId } from './learnerId';
+
+// Stores one JSON file per learner under `directory`
+export function createFileProfileStore(directory = process.env.PROFILES_DIR || join(process.cwd(), '.data', 'profiles')): ProfileStore {
+  const profilePath = (learnerId: string) => join(directory, `${learnerId}.json`);
+
+  return {
+    async get(learnerId) {
+      if (!isLearnerId(learnerId)) return null;
+      try {
+        // Re-validate so profiles written by older versions fall back to defaults instead of breaking prompts
+        const parsed = learnerProfileSchema.safeParse(JSON.parse(await readFile(profilePath(learnerId), 'utf-8')));
+        return parsed.success ? parsed.data : null;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async save(learnerId, profile) {
+      if (!isLearnerId(learnerId)) {
+        throw new Error('Invalid learner id');
+      }
+      await mkdir(directory, { recursive: true });
+      const tempPath = `${profilePath(learnerId)}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+      await writeFile(tempPath, JSON.stringify(profile), 'utf-8');
+      await rename(tempPath, profilePath(learnerId));
+      return profile;
+    },
+  };
+}
@@ -0,0 +1,14 @@
+import { createFileProfileStore } from './fileStore';
+import { ProfileStore } from './types';
+
+export * from './types';
+export * from './learnerId';
+
+let store: ProfileStore | null = null;
+
+export function getProfileStore(): ProfileStore {
+  if (!store) {
+    store = createFileProfileStore();
+  }
+  return store;
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+
+// Anonymous per-browser id; there are no accounts, so this is what a profile belongs to
+export const LEARNER_COOKIE = 'learner-id';
+
+const LEARNER_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+export function isLearnerId(value: string): boolean {
+  return LEARNER_ID_PATTERN.test(value);
+}
+
+export function readLearnerId(req: NextRequest): string | null {
+  const value = req.cookies.get(LEARNER_COOKIE)?.value;
+  return value && isLearnerId(value) ? value : null;
+}
+
+export function createLearnerId(): string {
+  return crypto.randomUUID();
+}
+
+export function setLearnerCookie(response: NextResponse, learnerId: string): NextResponse {
+  response.cookies.set(LEARNER_COOKIE, learnerId, {
+    httpOnly: true,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 60 * 60 * 24 * 365,
+  });
+  return response;
+}
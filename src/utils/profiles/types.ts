@@ -0,0 +1,7 @@
+import type { LearnerProfile } from '../learnerProfile';
+
+// Storage backend for learner profiles, keyed by the anonymous learner id
+export interface ProfileStore {
+  get(learnerId: string): Promise<LearnerProfile | null>;
+  save(learnerId: string, profile: LearnerProfile): Promise<LearnerProfile>;
+}
@@ -0,0 +1,18 @@
+// Figure types shared by the Python runner and the chat UI; no server imports here
+
+export const FIGURE_FORMATS = ['png', 'svg'] as const;
+export type FigureFormat = typeof FIGURE_FORMATS[number];
+
+// A matplotlib figure saved by the harness, base64-encoded whatever the format
+export interface Figure {
+  format: FigureFormat;
+  data: string;
+}
+
+// Figures beyond this are dropped; each one is stored with the message and sent to the browser
+export const MAX_FIGURES = 6;
+
+export const FIGURE_MIME_TYPES: Record<FigureFormat, string> = {
+  png: 'image/png',
+  svg: 'image/svg+xml',
+};
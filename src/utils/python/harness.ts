@@ -0,0 +1,53 @@
+import { readdir, readFile } from 'fs/promises';
+import { join } from 'path';
+import { Figure, MAX_FIGURES } from './figures';
+
+export * from './figures';
+
+const FIGURE_FILE_PATTERN = /^figure-\d+\.(png|svg)$/;
+
+// Defines `run_cell(code, namespace, figure_dir, figure_format)`, which runs model code and then
+// saves every open matplotlib figure into `figure_dir`. Errors print a traceback to stderr as usual
+// and make it return False.
+export const CELL_HARNESS = `
+import os
+import sys
+import traceback
+import warnings
+
+# Headless: figures are rendered to files, never to a window
+os.environ['MPLBACKEND'] = 'Agg'
+warnings.filterwarnings('ignore', message='FigureCanvasAgg is non-interactive')
+
+
+def save_figures(figure_dir, figure_format):
+    pyplot = sys.modules.get('matplotlib.pyplot')
+    if pyplot is None:
+        return
+    for index, number in enumerate(pyplot.get_fignums()[:${MAX_FIGURES}]):
+        path = os.path.join(figure_dir, f'figure-{index + 1:02d}.{figure_format}')
+        pyplot.figure(number).savefig(path, format=figure_format, bbox_inches='tight', dpi=100)
+    pyplot.close('all')
+
+
+def run_cell(code, namespace, figure_dir, figure_format):
+    try:
+        exec(compile(code, '<cell>', 'exec'), namespace)
+        return True
+    except BaseException:
+        error_type, error, trace = sys.exc_info()
+        # Start the traceback in the cell rather than in this harness
+        traceback.print_exception(error_type, error, trace.tb_next)
+        return False
+    finally:
+        save_figures(figure_dir, figure_format)
+`;
+
+// Reads the figures the harness saved, in the order they were created
+export async function readFigures(directory: string): Promise<Figure[]> {
+  const files = (await readdir(directory)).filter(file => FIGURE_FILE_PATTERN.test(file)).sort();
+  return Promise.all(files.map(async file => ({
+    format: file.endsWith('.svg') ? 'svg' : 'png',
+    data: (await readFile(join(directory, file))).toString('base64'),
+  })));
+}
@@ -0,0 +1,58 @@
+import { runPythonScript } from '../executePython';
+import { allowedModuleNames, memoryCeilingMb } from './policy';
+
+export interface ModuleStatus {
+  module: string;
+  importable: boolean;
+  // The exception the import raised
+  error?: string;
+}
+
+// Imports take longer than a cell, and several heavy libraries load in the same process
+const CHECK_TIMEOUT_MS = 60000;
+// The report is short, but a tight output cap must not cut it
+const REPORT_CHARS = 100000;
+
+const importScript = (modules: string[]) => `import contextlib
+import importlib
+import json
+import os
+
+results = []
+for name in json.loads(${JSON.stringify(JSON.stringify(modules))}):
+    try:
+        with open(os.devnull, 'w') as quiet, contextlib.redirect_stdout(quiet), contextlib.redirect_stderr(quiet):
+            importlib.import_module(name)
+        results.append({'module': name, 'importable': True})
+    except BaseException as error:
+        results.append({'module': name, 'importable': False, 'error': f'{type(error).__name__}: {error}'})
+print(json.dumps(results))
+`;
+
+// Imports every allowed module in the same sandbox code runs in, so missing packages show up
+// before a student's code needs them
+async function importModules(): Promise<ModuleStatus[]> {
+  const modules = allowedModuleNames();
+  const { output, error } = await runPythonScript(importScript(modules), {
+    limits: {
+      timeoutMs: CHECK_TIMEOUT_MS,
+      cpuSeconds: CHECK_TIMEOUT_MS / 1000,
+      memoryMb: memoryCeilingMb(),
+      outputChars: REPORT_CHARS,
+    },
+  });
+  if (error) {
+    return modules.map(module => ({ module, importable: false, error: `The check could not run: ${error}` }));
+  }
+  return JSON.parse(output ?? '[]');
+}
+
+let check: Promise<ModuleStatus[]> | null = null;
+
+// Runs once at startup; `recheck` runs it again, e.g. after installing a package
+export function checkAllowedModules(recheck = false): Promise<ModuleStatus[]> {
+  if (recheck || !check) {
+    check = importModules();
+  }
+  return check;
+}
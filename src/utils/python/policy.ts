@@ -0,0 +1,87 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { z } from 'zod';
+import { TUTOR_MODES, TutorMode } from '../tutorModes';
+import { RunLimits } from './sandbox';
+
+// Everything that runs Python: the two tools and the SymPy check of final answers
+export const PYTHON_TOOLS = ['runPython', 'symbolic', 'verification'] as const;
+export type PythonTool = typeof PYTHON_TOOLS[number];
+
+// What one run may do; `allowedModules` only constrains model-written code, since the other tools run the server's own scripts
+export interface RunPolicy extends RunLimits {
+  allowedModules: string[];
+}
+
+const moduleName = z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'must be a top-level module name');
+
+const limitsSchema = z.object({
+  timeoutMs: z.number().int().positive(),
+  cpuSeconds: z.number().int().positive(),
+  memoryMb: z.number().int().min(64),
+  outputChars: z.number().int().positive(),
+}).strict();
+
+const overrideSchema = limitsSchema.partial().extend({
+  allowedModules: z.array(moduleName).optional(),
+}).strict();
+
+// Tool entries override the defaults, and their mode entries override the tool
+const policySchema = z.object({
+  allowedModules: z.array(moduleName),
+  limits: limitsSchema,
+  tools: z.record(
+    z.enum(PYTHON_TOOLS),
+    overrideSchema.extend({ modes: z.record(z.enum(TUTOR_MODES), overrideSchema).default({}) }).strict(),
+  ).default({}),
+}).strict();
+
+export type ExecutionPolicy = z.infer<typeof policySchema>;
+
+export const policyPath = () => process.env.EXECUTION_POLICY_PATH || join(process.cwd(), 'config', 'execution-policy.json');
+
+// Read once; an unreadable or invalid file throws, which stops the server at startup
+let policy: ExecutionPolicy | null = null;
+
+export function getExecutionPolicy(): ExecutionPolicy {
+  if (policy) return policy;
+
+  const path = policyPath();
+  let parsed: z.SafeParseReturnType<unknown, ExecutionPolicy>;
+  try {
+    parsed = policySchema.safeParse(JSON.parse(readFileSync(path, 'utf-8')));
+  } catch (error) {
+    throw new Error(`Could not read the execution policy ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid execution policy ${path}:\n${problems.join('\n')}`);
+  }
+  policy = parsed.data;
+  return policy;
+}
+
+export function runPolicy(tool: PythonTool, mode?: TutorMode): RunPolicy {
+  const { allowedModules, limits, tools } = getExecutionPolicy();
+  const { modes, ...toolOverride } = tools[tool] ?? { modes: {} };
+  return { allowedModules, ...limits, ...toolOverride, ...(mode ? modes[mode] : undefined) };
+}
+
+// The effective policy of every tool in every mode, as the admin route shows it
+export function effectivePolicies(): Record<PythonTool, Record<TutorMode, RunPolicy>> {
+  return Object.fromEntries(PYTHON_TOOLS.map(tool => [
+    tool,
+    Object.fromEntries(TUTOR_MODES.map(mode => [mode, runPolicy(tool, mode)])),
+  ])) as Record<PythonTool, Record<TutorMode, RunPolicy>>;
+}
+
+// Long-lived interpreters serve runs of any mode, so their hard memory limit is the largest any run may get
+export function memoryCeilingMb(): number {
+  return Math.max(...Object.values(effectivePolicies()).flatMap(modes => Object.values(modes).map(run => run.memoryMb)));
+}
+
+// Every module some run may import, for the startup check
+export function allowedModuleNames(): string[] {
+  const names = Object.values(effectivePolicies()).flatMap(modes => Object.values(modes).flatMap(run => run.allowedModules));
+  return [...new Set(names)].sort();
+}
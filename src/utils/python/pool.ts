@@ -0,0 +1,160 @@
+import { ChildProcessWithoutNullStreams } from 'child_process';
+import { mkdir, mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { CELL_HARNESS } from './harness';
+import { LIMITS_PRELUDE, processLimitsArg, spawnSandboxed } from './sandbox';
+import { VALIDATION_HARNESS } from './validate';
+
+// A sandboxed interpreter that has imported the preload modules and waits for its first request on stdin.
+// Workers are never handed out twice, so one run or session cannot see another's state.
+export interface WarmWorker {
+  child: ChildProcessWithoutNullStreams;
+  // Run directory for figures and the usage file; the code's working directory is `work` inside it
+  directory: string;
+  usagePath: string;
+}
+
+export interface WorkerPoolOptions {
+  // Idle workers kept ready
+  size: number;
+  // Hard memory limit of each worker; the run's own limits are set once its job arrives
+  memoryCeilingMb: number;
+  preloadModules: string[];
+  // What the worker runs once it is ready, e.g. ONE_CELL_SCRIPT; it starts from WARM_START
+  script: string;
+}
+
+export interface WorkerPoolMetrics {
+  size: number;
+  idle: number;
+  starting: number;
+  // Runs that found a warm worker, and runs that had to start one
+  warmStarts: number;
+  coldStarts: number;
+}
+
+export interface WorkerPool {
+  // A worker for one run; the caller removes its directory afterwards
+  acquire(): Promise<WarmWorker>;
+  metrics(): WorkerPoolMetrics;
+}
+
+// Applies the limits, imports the preload modules and prints `ready`; a pool's script continues from here.
+// Preloading happens before the run's own budget is set, so slow imports do not count against it.
+// Modules that are not installed are skipped; the cell's own import then reports the error as usual.
+export const WARM_START = `${LIMITS_PRELUDE}${CELL_HARNESS}${VALIDATION_HARNESS}
+import contextlib
+import importlib
+
+PRELOAD_CPU_SECONDS = 30
+
+limits = json.loads(sys.argv[1])
+apply_limits(limits)
+allow_run({'cpuSeconds': PRELOAD_CPU_SECONDS, 'memoryMb': limits['memoryMb']})
+# Messages such as matplotlib building its font cache must not show up as the cell's warnings
+with open(os.devnull, 'w') as quiet, contextlib.redirect_stderr(quiet):
+    for name in json.loads(sys.argv[2]):
+        try:
+            importlib.import_module(name)
+        except Exception:
+            pass
+
+sys.stdout.write('ready\\n')
+sys.stdout.flush()
+`;
+
+// Runs one cell and exits, reporting its peak memory in the usage file. Model code comes with its
+// `allowedModules` and is only run when it passes validation; the issues go in the usage file too.
+export const ONE_CELL_SCRIPT = `${WARM_START}
+job = json.loads(sys.stdin.readline())
+allow_run(job['limits'], final=True)
+issues = code_issues(job['code'], set(job['allowedModules'])) if 'allowedModules' in job else []
+ok = not issues and run_cell(job['code'], {'__name__': '__main__'}, job['figureDir'], job['figureFormat'])
+try:
+    with open(job['usagePath'], 'w') as file:
+        json.dump({'peakMemoryKb': resource.getrusage(resource.RUSAGE_SELF).ru_maxrss, 'issues': issues}, file)
+except OSError:
+    pass
+sys.exit(0 if ok else 1)
+`;
+
+async function startWorker(script: string, memoryCeilingMb: number, preloadModules: string[]): Promise<WarmWorker> {
+  const directory = await mkdtemp(join(tmpdir(), 'python-'));
+  try {
+    const workDirectory = join(directory, 'work');
+    await mkdir(workDirectory);
+    const child = await spawnSandboxed(
+      directory,
+      ['-u', '-c', script, processLimitsArg(memoryCeilingMb), JSON.stringify(preloadModules)],
+      workDirectory,
+    );
+
+    await new Promise<void>((resolve, reject) => {
+      const onExit = () => reject(new Error('The Python worker exited while starting'));
+      child.once('error', reject);
+      child.once('exit', onExit);
+      child.stdout.once('data', () => {
+        child.off('error', reject);
+        child.off('exit', onExit);
+        resolve();
+      });
+    });
+    // Writing the job to a worker that has just died fails; its exit is reported through the run instead
+    child.stdin.on('error', () => undefined);
+    return { child, directory, usagePath: join(directory, 'usage.json') };
+  } catch (error) {
+    await rm(directory, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+export function createWorkerPool({ size, memoryCeilingMb, preloadModules, script }: WorkerPoolOptions): WorkerPool {
+  const idle: WarmWorker[] = [];
+  let starting = 0;
+  let warmStarts = 0;
+  let coldStarts = 0;
+
+  // A worker that dies while idle, e.g. because preloading used up its memory, is dropped
+  const keep = (worker: WarmWorker) => {
+    idle.push(worker);
+    worker.child.once('exit', () => {
+      const index = idle.indexOf(worker);
+      if (index < 0) return;
+      idle.splice(index, 1);
+      rm(worker.directory, { recursive: true, force: true }).catch(() => undefined);
+    });
+  };
+
+  // Failures are logged rather than retried here, so a missing interpreter does not spin; the next run tries again
+  const refill = () => {
+    while (idle.length + starting < size) {
+      starting++;
+      startWorker(script, memoryCeilingMb, preloadModules)
+        .then(keep)
+        .catch(error => console.error('Failed to start a Python worker:', error))
+        .finally(() => {
+          starting--;
+        });
+    }
+  };
+
+  refill();
+
+  return {
+    async acquire() {
+      const worker = idle.shift();
+      refill();
+      if (worker) {
+        warmStarts++;
+        return worker;
+      }
+      // Without a warm worker, start one that imports nothing up front
+      coldStarts++;
+      return startWorker(script, memoryCeilingMb, []);
+    },
+    metrics() {
+      return { size, idle: idle.length, starting, warmStarts, coldStarts };
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import { createWorkerPool, ONE_CELL_SCRIPT, WorkerPool, WorkerPoolMetrics } from './pool';
+import { memoryCeilingMb } from './policy';
+import { limitFromEnv } from './sandbox';
+import { createScheduler, ExecutionScheduler, SchedulerMetrics } from './scheduler';
+import { SESSION_SCRIPT } from './worker';
+
+// Imported by warm workers before they wait for code; missing modules are skipped
+const PRELOAD_MODULES = (process.env.PYTHON_PRELOAD_MODULES ?? 'numpy,sympy,matplotlib.pyplot')
+  .split(',')
+  .map(name => name.trim())
+  .filter(Boolean);
+
+let scheduler: ExecutionScheduler | null = null;
+let pool: WorkerPool | null = null;
+let sessionPool: WorkerPool | null = null;
+let scriptPool: WorkerPool | null = null;
+
+// Every Python run, whether model code, a session cell or a SymPy script, waits here for a slot
+export function getExecutionScheduler(): ExecutionScheduler {
+  scheduler ??= createScheduler({
+    concurrency: limitFromEnv('PYTHON_MAX_CONCURRENT', 4),
+    maxQueue: limitFromEnv('PYTHON_MAX_QUEUE', 50),
+    maxQueuePerUser: limitFromEnv('PYTHON_MAX_QUEUE_PER_USER', 5),
+    maxRunningPerUser: limitFromEnv('PYTHON_MAX_RUNNING_PER_USER', 1),
+  });
+  return scheduler;
+}
+
+export function getWorkerPool(): WorkerPool {
+  pool ??= createWorkerPool({
+    size: limitFromEnv('PYTHON_POOL_SIZE', 2),
+    memoryCeilingMb: memoryCeilingMb(),
+    preloadModules: PRELOAD_MODULES,
+    script: ONE_CELL_SCRIPT,
+  });
+  return pool;
+}
+
+// Interpreters for conversations that start using runPython; each one keeps its namespace for the whole conversation
+export function getSessionPool(): WorkerPool {
+  sessionPool ??= createWorkerPool({
+    size: limitFromEnv('PYTHON_SESSION_POOL_SIZE', 1),
+    memoryCeilingMb: memoryCeilingMb(),
+    preloadModules: PRELOAD_MODULES,
+    script: SESSION_SCRIPT,
+  });
+  return sessionPool;
+}
+
+// Interpreters for the server's own scripts, i.e. the symbolic tool and the answer check, which all use SymPy
+export function getScriptPool(): WorkerPool {
+  scriptPool ??= createWorkerPool({
+    size: limitFromEnv('PYTHON_SCRIPT_POOL_SIZE', 1),
+    memoryCeilingMb: memoryCeilingMb(),
+    preloadModules: ['sympy'],
+    script: ONE_CELL_SCRIPT,
+  });
+  return scriptPool;
+}
+
+export interface RunnerMetrics {
+  scheduler: SchedulerMetrics;
+  // Null until the first model-code run starts the pool
+  pool: WorkerPoolMetrics | null;
+  // Null until the first conversation starts an interpreter
+  sessionPool: WorkerPoolMetrics | null;
+  // Null until the first server script runs
+  scriptPool: WorkerPoolMetrics | null;
+}
+
+export function runnerMetrics(): RunnerMetrics {
+  return {
+    scheduler: getExecutionScheduler().metrics(),
+    pool: pool?.metrics() ?? null,
+    sessionPool: sessionPool?.metrics() ?? null,
+    scriptPool: scriptPool?.metrics() ?? null,
+  };
+}
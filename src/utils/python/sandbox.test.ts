@@ -0,0 +1,67 @@
+import { existsSync, rmSync } from 'fs';
+import { join } from 'path';
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { ScriptResult } from '../executePython';
+
+const limits = { timeoutMs: 10000, cpuSeconds: 10, memoryMb: 512, outputChars: 20000 };
+const SECRET = 'sandbox-test-secret';
+const ESCAPE_PATH = '/tmp/sandbox-test-escape';
+
+let run: (code: string) => Promise<ScriptResult>;
+
+beforeAll(async () => {
+  // Without `required` a kernel lacking the namespaces would fall back to running unconfined, and these tests would pass vacuously
+  process.env.PYTHON_ISOLATION = 'required';
+  process.env.SANDBOX_TEST_API_KEY = SECRET;
+  const { runPythonScript } = await import('../executePython');
+  run = code => runPythonScript(code, { limits });
+});
+
+// The last line of the traceback, e.g. "OSError: [Errno 101] Network is unreachable"
+const failure = ({ error }: ScriptResult) => error?.trim().split('\n').pop();
+
+describe('the Python sandbox', { timeout: 30000 }, () => {
+  it('has no network access', async () => {
+    const result = await run(`import socket
+socket.create_connection(('1.1.1.1', 80), timeout=2)`);
+    expect(failure(result)).toMatch(/^OSError/);
+  });
+
+  it('cannot start processes', async () => {
+    expect(failure(await run('import os; os.fork()'))).toMatch(/^BlockingIOError/);
+    expect(failure(await run(`import subprocess
+subprocess.run(['true'])`))).toMatch(/Error/);
+  });
+
+  it('does not receive the server environment', async () => {
+    const { output } = await run('import os, json; print(json.dumps(dict(os.environ)))');
+    const environment = JSON.parse(output!);
+    expect(Object.values(environment)).not.toContain(SECRET);
+    expect(environment).not.toHaveProperty('PYTHON_SANDBOX');
+  });
+
+  it('cannot read the server files', async () => {
+    const result = await run(`print(open(${JSON.stringify(join(process.cwd(), 'package.json'))}).read())`);
+    expect(failure(result)).toMatch(/^FileNotFoundError/);
+  });
+
+  it('only writes inside its own directory', async () => {
+    rmSync(ESCAPE_PATH, { force: true });
+    expect(failure(await run(`open('${ESCAPE_PATH}', 'w').write('escaped')`))).toMatch(/Read-only file system/);
+    expect(existsSync(ESCAPE_PATH)).toBe(false);
+    expect(failure(await run("open('/usr/escape', 'w')"))).toMatch(/Read-only file system/);
+    expect(await run("open('notes.txt', 'w').write('ok'); print(open('notes.txt').read())")).toEqual({ output: 'ok' });
+  });
+
+  it('cannot make the file system writable again', async () => {
+    const { output } = await run(`import ctypes
+libc = ctypes.CDLL(None, use_errno=True)
+# MS_REMOUNT | MS_BIND without MS_RDONLY, then an unmount that would reveal what lies below
+print(libc.mount(None, b'/usr', None, 32 | 4096, None), libc.umount2(b'/usr', 2))`);
+    expect(output).toBe('-1 -1');
+  });
+
+  it('does not see the server processes', async () => {
+    expect(await run("import os; print(os.path.exists('/proc/1/environ'))")).toEqual({ output: 'False' });
+  });
+});
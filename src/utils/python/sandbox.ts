@@ -0,0 +1,322 @@
+import { ChildProcessWithoutNullStreams, execFile, spawn } from 'child_process';
+import { chown, mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+// Kernel-enforced limits for every Python process that runs model or server code
+export interface ProcessLimits {
+  openFiles: number;
+  // RLIMIT_NPROC counts every process of the user, so 1 means the code cannot start processes or threads.
+  // The kernel does not apply it to root, which is why a confined sandbox started by root drops to another user.
+  processes: number;
+  // Largest file the code may write, e.g. a figure
+  fileSizeMb: number;
+}
+
+// Limits for one run or cell, taken from the execution policy
+export interface RunLimits {
+  // Wall-clock limit, which also catches code that sleeps or blocks; importing matplotlib
+  // and rendering figures takes a few seconds on its own
+  timeoutMs: number;
+  cpuSeconds: number;
+  // Address space, which bounds memory including what native libraries allocate
+  memoryMb: number;
+  // Each of stdout and stderr is cut to this many characters before it reaches the model or the browser
+  outputChars: number;
+}
+
+export const limitFromEnv = (name: string, fallback: number) => Number(process.env[name]) || fallback;
+
+export const processLimits: ProcessLimits = {
+  openFiles: limitFromEnv('PYTHON_MAX_OPEN_FILES', 64),
+  processes: limitFromEnv('PYTHON_MAX_PROCESSES', 1),
+  fileSizeMb: limitFromEnv('PYTHON_MAX_FILE_MB', 16),
+};
+
+// Argument for `apply_limits`; `memoryMb` is the hard memory limit no later run can raise
+export const processLimitsArg = (memoryMb: number) => JSON.stringify({ ...processLimits, memoryMb });
+
+// The part of a run's limits that `allow_run` enforces inside the interpreter
+export const runBudget = ({ cpuSeconds, memoryMb }: RunLimits) => ({ cpuSeconds, memoryMb });
+
+// Defines `confine(sandbox)`, which replaces the file system the interpreter sees with a read-only copy of what
+// Python needs plus its run directory, and then gives up the privileges to change that. It runs in the fresh mount
+// namespace `unshare` starts, as root or as the mapped root of a user namespace, and fails rather than run unconfined.
+const CONFINEMENT = `
+import ctypes
+import os
+import platform
+
+MS_RDONLY, MS_NOSUID, MS_NODEV, MS_REMOUNT, MS_BIND, MS_REC, MS_PRIVATE = 1, 2, 4, 32, 4096, 16384, 1 << 18
+MNT_DETACH = 2
+CLONE_NEWNS, CLONE_NEWUSER = 0x20000, 0x10000000
+PR_SET_NO_NEW_PRIVS = 38
+# pivot_root has no libc wrapper
+PIVOT_ROOT_SYSCALL = {'x86_64': 155, 'aarch64': 41, 'riscv64': 41}
+# A bind mount in a user namespace must keep these flags of the mount it copies, as statvfs reports them
+LOCKED_FLAGS = ((os.ST_NOSUID, MS_NOSUID), (os.ST_NODEV, MS_NODEV), (os.ST_NOEXEC, 8), (os.ST_NOATIME, 1024),
+                (os.ST_NODIRATIME, 2048), (os.ST_RELATIME, 1 << 21))
+# Besides these, only the interpreter's own directories and the run directory are visible
+SYSTEM_PATHS = ['/usr', '/lib', '/lib32', '/lib64', '/bin', '/sbin', '/etc/ld.so.cache', '/etc/ld.so.conf',
+                '/etc/ld.so.conf.d', '/etc/localtime', '/etc/alternatives', '/etc/fonts']
+DEVICES = ['/dev/null', '/dev/zero', '/dev/random', '/dev/urandom']
+
+libc = ctypes.CDLL(None, use_errno=True)
+libc.mount.argtypes = [ctypes.c_char_p, ctypes.c_char_p, ctypes.c_char_p, ctypes.c_ulong, ctypes.c_char_p]
+
+
+def check(result, action):
+    if result != 0:
+        error = ctypes.get_errno()
+        raise OSError(error, f'{action}: {os.strerror(error)}')
+
+
+def mount(source, target, fstype, flags, options=None):
+    encode = lambda value: value.encode() if value else None
+    check(libc.mount(encode(source), encode(target), encode(fstype), flags, encode(options)), f'mount {target}')
+
+
+def bind(path, root, flags, recursive=True):
+    target = root + path
+    if os.path.islink(path):
+        os.makedirs(os.path.dirname(target), exist_ok=True)
+        os.symlink(os.readlink(path), target)
+        return
+    if os.path.isdir(path):
+        os.makedirs(target, exist_ok=True)
+    else:
+        os.makedirs(os.path.dirname(target), exist_ok=True)
+        open(target, 'w').close()
+    mount(path, target, None, MS_BIND | (MS_REC if recursive else 0))
+    locked = sum(mount_flag for stat_flag, mount_flag in LOCKED_FLAGS if os.statvfs(path).f_flag & stat_flag)
+    mount(None, target, None, MS_REMOUNT | MS_BIND | flags | locked)
+
+
+def confine(sandbox):
+    directory = sandbox['directory']
+    root = os.path.join(directory, '.sandbox-root')
+    os.makedirs(root, exist_ok=True)
+    # Mounts made here must not propagate back to the server's namespace
+    mount(None, '/', None, MS_REC | MS_PRIVATE)
+    mount('tmpfs', root, 'tmpfs', MS_NOSUID | MS_NODEV, 'mode=755')
+
+    # Not recursive, so the new root mounted inside the run directory does not appear within itself
+    bind(directory, root, MS_NOSUID | MS_NODEV, recursive=False)
+    bound = [directory]
+    paths = SYSTEM_PATHS + [sys.prefix, sys.base_prefix, sys.exec_prefix, sys.base_exec_prefix, *sys.path]
+    for path in paths:
+        if not path.startswith('/') or not os.path.lexists(path):
+            continue
+        path = os.path.normpath(path)
+        if any(path == done or path.startswith(done.rstrip('/') + '/') for done in bound):
+            continue
+        bind(path, root, MS_RDONLY | MS_NOSUID | MS_NODEV)
+        bound.append(path)
+    for device in DEVICES:
+        bind(device, root, MS_RDONLY | MS_NOSUID)
+    mount(None, root, None, MS_REMOUNT | MS_RDONLY | MS_NOSUID | MS_NODEV)
+
+    # The old root is detached rather than kept under the new one, so nothing outside the copy stays reachable
+    os.chdir(root)
+    check(libc.syscall(PIVOT_ROOT_SYSCALL[platform.machine()], b'.', b'.'), 'pivot_root')
+    check(libc.umount2(b'.', MNT_DETACH), 'umount old root')
+    os.chdir(sandbox['workDirectory'])
+
+    user = sandbox.get('user')
+    if user:
+        os.setgroups([])
+        os.setgid(user['gid'])
+        os.setuid(user['uid'])
+    else:
+        # Mounts inherited by a nested user namespace are locked: the code cannot unmount them or make them writable
+        check(libc.unshare(CLONE_NEWUSER | CLONE_NEWNS), 'unshare')
+    check(libc.prctl(PR_SET_NO_NEW_PRIVS, 1, 0, 0, 0), 'prctl')
+`;
+
+// Defines `apply_limits(limits)`, which the sandboxed interpreter calls before running anything else, and
+// `allow_run(run, final)`, which sets the CPU and memory budget of each run; interpreters that serve several
+// runs call it once per run. Importing `resource` fails outside Unix, and then nothing runs rather than running unconfined.
+export const LIMITS_PRELUDE = `
+import json
+import math
+import resource
+import sys
+${CONFINEMENT}
+MEGABYTE = 1024 * 1024
+
+
+def apply_limits(limits):
+    # Set by spawnSandboxed when the process runs in its own namespaces
+    sandbox = os.environ.pop('PYTHON_SANDBOX', None)
+    if sandbox:
+        confine(json.loads(sandbox))
+    # CPU time stays unlimited until allow_run budgets it
+    for name, value in (
+        ('RLIMIT_AS', limits['memoryMb'] * MEGABYTE),
+        ('RLIMIT_NOFILE', limits['openFiles']),
+        ('RLIMIT_NPROC', limits['processes']),
+        ('RLIMIT_FSIZE', limits['fileSizeMb'] * MEGABYTE),
+    ):
+        # RLIMIT_NPROC is missing on some platforms
+        if hasattr(resource, name):
+            resource.setrlimit(getattr(resource, name), (value, value))
+
+
+def allow_run(run, final=False):
+    # The soft CPU limit sends SIGXCPU, which ends the process; it counts from now rather than from start.
+    # A final budget also closes the hard limit as a SIGKILL backstop.
+    usage = resource.getrusage(resource.RUSAGE_SELF)
+    soft = math.ceil(usage.ru_utime + usage.ru_stime) + run['cpuSeconds']
+    resource.setrlimit(resource.RLIMIT_CPU, (soft, soft + 1 if final else resource.RLIM_INFINITY))
+    # Only the soft memory limit moves, so a later run can get more again, up to the hard limit
+    hard = resource.getrlimit(resource.RLIMIT_AS)[1]
+    memory = run['memoryMb'] * MEGABYTE
+    resource.setrlimit(resource.RLIMIT_AS, (memory if hard == resource.RLIM_INFINITY else min(memory, hard), hard))
+`;
+
+// Resolved once with the server's environment, since version-manager shims need variables the sandbox drops
+let executable: Promise<string> | null = null;
+
+function pythonExecutable(): Promise<string> {
+  executable ??= execFileAsync(process.env.PYTHON_BIN || 'python', ['-c', 'import sys; print(sys.executable)'])
+    .then(({ stdout }) => stdout.trim())
+    .catch(error => {
+      executable = null;
+      throw error;
+    });
+  return executable;
+}
+
+// `auto` confines Python where the kernel allows it and otherwise runs it with a warning; `required` refuses to run it
+// unconfined, and `off` skips confinement
+const ISOLATION = process.env.PYTHON_ISOLATION === 'off' || process.env.PYTHON_ISOLATION === 'required'
+  ? process.env.PYTHON_ISOLATION
+  : 'auto';
+
+interface SandboxUser {
+  uid: number;
+  gid: number;
+}
+
+interface Confinement {
+  // Runs its arguments in new network and mount namespaces
+  prefix: string[];
+  // Who the code runs as when the server is root; otherwise the nested user namespace takes away its privileges
+  user: SandboxUser | null;
+}
+
+// What `confine` needs to know about one process
+interface SandboxConfig {
+  directory: string;
+  workDirectory: string;
+  user: SandboxUser | null;
+}
+
+// Only what Python and the allowed libraries need; secrets such as API keys never reach the code
+function sandboxEnvironment(directory: string, sandbox: SandboxConfig | null): NodeJS.ProcessEnv {
+  const environment: Record<string, string> = {
+    PATH: '/usr/local/bin:/usr/bin:/bin',
+    LANG: 'C.UTF-8',
+    HOME: directory,
+    TMPDIR: directory,
+    MPLCONFIGDIR: directory,
+    PYTHONDONTWRITEBYTECODE: '1',
+    // Keep numeric libraries to one thread so the process limit does not stop them
+    OPENBLAS_NUM_THREADS: '1',
+    OMP_NUM_THREADS: '1',
+    MKL_NUM_THREADS: '1',
+    ...(sandbox ? { PYTHON_SANDBOX: JSON.stringify(sandbox) } : {}),
+  };
+  // Next declares NODE_ENV as required in ProcessEnv, and the sandbox deliberately leaves it out
+  return environment as NodeJS.ProcessEnv;
+}
+
+// Files the code must write to belong to the sandbox user when it runs as one
+async function shareWith(user: SandboxUser | null, paths: string[]) {
+  if (user) await Promise.all(paths.map(path => chown(path, user.uid, user.gid)));
+}
+
+// Confines a throwaway interpreter once, so a kernel without the namespaces shows up before the first run
+const CONFINEMENT_CHECK = `${LIMITS_PRELUDE}
+apply_limits(json.loads(sys.argv[1]))
+`;
+
+async function checkConfinement(python: string, { prefix, user }: Confinement) {
+  const directory = await mkdtemp(join(tmpdir(), 'python-'));
+  try {
+    await shareWith(user, [directory]);
+    const [command, ...commandArgs] = [...prefix, python, '-E', '-c', CONFINEMENT_CHECK, processLimitsArg(256)];
+    await execFileAsync(command, commandArgs, {
+      cwd: directory,
+      env: sandboxEnvironment(directory, { directory, workDirectory: directory, user }),
+      timeout: 10000,
+    });
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+let confinement: Promise<Confinement | null> | null = null;
+
+function getConfinement(python: string): Promise<Confinement | null> {
+  if (ISOLATION === 'off') return Promise.resolve(null);
+  // Root needs no user namespace to make mounts, and drops to an unprivileged user instead
+  const candidate: Confinement = process.getuid?.() === 0
+    ? {
+      prefix: ['unshare', '--net', '--mount'],
+      user: { uid: limitFromEnv('PYTHON_SANDBOX_UID', 65534), gid: limitFromEnv('PYTHON_SANDBOX_GID', 65534) },
+    }
+    : { prefix: ['unshare', '--user', '--map-root-user', '--net', '--mount'], user: null };
+  confinement ??= checkConfinement(python, candidate)
+    .then(() => candidate)
+    .catch(error => {
+      const reason = error instanceof Error ? error.message : String(error);
+      if (ISOLATION === 'required') {
+        confinement = null;
+        throw new Error(`Python cannot be confined, and PYTHON_ISOLATION is required: ${reason}`);
+      }
+      console.warn(`Python cannot be confined and will run with access to the network and file system: ${reason}`);
+      return null;
+    });
+  return confinement;
+}
+
+// Makes a directory created after the process started, such as a session cell's figure directory, writable by the code
+export async function shareWithSandbox(path: string) {
+  const confined = await getConfinement(await pythonExecutable());
+  await shareWith(confined?.user ?? null, [path]);
+}
+
+// Starts `python -E <args>` in `workDirectory` with a scrubbed environment and, where possible, without network access
+// and with only `directory`, which contains `workDirectory`, writable.
+// `args` must make the interpreter call `apply_limits` from LIMITS_PRELUDE before anything else.
+export async function spawnSandboxed(
+  directory: string,
+  args: string[],
+  workDirectory = directory,
+): Promise<ChildProcessWithoutNullStreams> {
+  const python = await pythonExecutable();
+  const confined = await getConfinement(python);
+  await shareWith(confined?.user ?? null, [...new Set([directory, workDirectory])]);
+  const [command, ...commandArgs] = [...(confined?.prefix ?? []), python, '-E', ...args];
+  // No shell: the argument vector goes to the kernel as is
+  return spawn(command, commandArgs, {
+    cwd: workDirectory,
+    env: sandboxEnvironment(workDirectory, confined && { directory, workDirectory, user: confined.user }),
+  });
+}
+
+// Linux reports ru_maxrss in kilobytes
+export const kilobytesToMb = (kilobytes: number) => Math.round((kilobytes / 1024) * 10) / 10;
+
+// Keeps the start of a long stream and says how much was dropped
+export function capStream(text: string, maxChars: number): { text: string; truncated: boolean } {
+  if (text.length <= maxChars) return { text, truncated: false };
+  return {
+    text: `${text.slice(0, maxChars)}\n... ${text.length - maxChars} more characters not shown`,
+    truncated: true,
+  };
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { createScheduler, SchedulerOptions } from './scheduler';
+
+const BUSY = 'The Python runner is busy; try again in a moment';
+
+// Lets queued runs start once a running one settles
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// A scheduler whose runs record when they start and only finish when released
+function setup(options: Partial<SchedulerOptions> = {}) {
+  const scheduler = createScheduler({ concurrency: 1, maxQueue: 10, maxQueuePerUser: 10, maxRunningPerUser: 10, ...options });
+  const started: string[] = [];
+  const releases = new Map<string, () => void>();
+
+  const run = (userKey: string, name: string, signal?: AbortSignal) => scheduler.run(userKey, () => {
+    started.push(name);
+    return new Promise<string>(resolve => releases.set(name, () => resolve(name)));
+  }, signal);
+
+  const release = async (name: string) => {
+    releases.get(name)!();
+    await settle();
+  };
+
+  return { scheduler, started, run, release };
+}
+
+describe('createScheduler', () => {
+  it('runs up to `concurrency` at once and queues the rest', async () => {
+    const { scheduler, started, run, release } = setup({ concurrency: 2 });
+    const results = [run('a', 'a1'), run('b', 'b1'), run('c', 'c1')];
+    expect(started).toEqual(['a1', 'b1']);
+    expect(scheduler.metrics()).toMatchObject({ running: 2, queued: 1, waitingUsers: 1 });
+
+    await release('a1');
+    expect(started).toEqual(['a1', 'b1', 'c1']);
+    await release('b1');
+    await release('c1');
+    await expect(Promise.all(results)).resolves.toEqual(['a1', 'b1', 'c1']);
+    expect(scheduler.metrics()).toMatchObject({ running: 0, queued: 0, completed: 3 });
+  });
+
+  it('serves waiting users round-robin, so many runs from one user only delay their own', async () => {
+    const { started, run, release } = setup();
+    run('x', 'x1');
+    for (const name of ['a1', 'a2', 'a3']) run('a', name);
+    run('b', 'b1');
+
+    for (const name of ['x1', 'a1', 'b1', 'a2']) await release(name);
+    expect(started).toEqual(['x1', 'a1', 'b1', 'a2', 'a3']);
+  });
+
+  it('keeps a user to `maxRunningPerUser` runs while others use the free slots', async () => {
+    const { started, run, release } = setup({ concurrency: 3, maxRunningPerUser: 1 });
+    run('a', 'a1');
+    run('a', 'a2');
+    run('b', 'b1');
+    expect(started).toEqual(['a1', 'b1']);
+
+    await release('b1');
+    expect(started).toEqual(['a1', 'b1']);
+    await release('a1');
+    expect(started).toEqual(['a1', 'b1', 'a2']);
+  });
+
+  it('turns runs away when the user queue or the whole queue is full', async () => {
+    const { scheduler, run } = setup({ maxQueue: 3, maxQueuePerUser: 2 });
+    run('x', 'x1');
+    run('a', 'a1');
+    run('a', 'a2');
+    await expect(run('a', 'a3')).rejects.toThrow(BUSY);
+
+    run('b', 'b1');
+    await expect(run('c', 'c1')).rejects.toThrow(BUSY);
+    expect(scheduler.metrics()).toMatchObject({ queued: 3, rejected: 2, longestUserQueue: 2 });
+  });
+
+  it('drops a run cancelled while it waits', async () => {
+    const { scheduler, started, run, release } = setup();
+    const controller = new AbortController();
+    run('x', 'x1');
+    const cancelled = run('a', 'a1', controller.signal);
+    run('b', 'b1');
+
+    controller.abort();
+    await expect(cancelled).rejects.toThrow('Execution cancelled');
+    expect(scheduler.metrics()).toMatchObject({ queued: 1, waitingUsers: 1 });
+
+    await release('x1');
+    expect(started).toEqual(['x1', 'b1']);
+    await expect(run('a', 'a2', controller.signal)).rejects.toThrow('Execution cancelled');
+  });
+});
@@ -0,0 +1,139 @@
+export interface SchedulerOptions {
+  // Python runs in progress at once across all users
+  concurrency: number;
+  // Runs waiting across all users; more are turned away rather than queued
+  maxQueue: number;
+  maxQueuePerUser: number;
+  // Runs in progress at once for one user; a reply with several runPython calls must not hold every slot
+  maxRunningPerUser: number;
+}
+
+export interface SchedulerMetrics {
+  concurrency: number;
+  maxQueue: number;
+  running: number;
+  queued: number;
+  // Users with at least one run waiting, and the most runs any one of them has waiting
+  waitingUsers: number;
+  longestUserQueue: number;
+  completed: number;
+  rejected: number;
+  averageWaitMs: number;
+}
+
+export interface ExecutionScheduler {
+  // Runs `task` once a slot is free; rejects when the queue is full or `signal` aborts while waiting
+  run<T>(userKey: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T>;
+  metrics(): SchedulerMetrics;
+}
+
+type Job = {
+  userKey: string;
+  task: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  enqueuedAt: number;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+};
+
+const BUSY_MESSAGE = 'The Python runner is busy; try again in a moment';
+
+// Bounded concurrency with one queue per user, served round-robin so a user who sends many runs
+// only delays their own
+export function createScheduler({ concurrency, maxQueue, maxQueuePerUser, maxRunningPerUser }: SchedulerOptions): ExecutionScheduler {
+  // Insertion order is the rotation: a served user moves to the back
+  const queues = new Map<string, Job[]>();
+  const runningByUser = new Map<string, number>();
+  const hasRoom = (userKey: string) => (runningByUser.get(userKey) ?? 0) < maxRunningPerUser;
+  let running = 0;
+  let queued = 0;
+  let completed = 0;
+  let rejected = 0;
+  let started = 0;
+  let totalWaitMs = 0;
+
+  const start = (job: Job) => {
+    running++;
+    runningByUser.set(job.userKey, (runningByUser.get(job.userKey) ?? 0) + 1);
+    started++;
+    totalWaitMs += Date.now() - job.enqueuedAt;
+    if (job.onAbort) job.signal?.removeEventListener('abort', job.onAbort);
+    job.task().then(job.resolve, job.reject).finally(() => {
+      running--;
+      const userRunning = runningByUser.get(job.userKey)! - 1;
+      if (userRunning > 0) runningByUser.set(job.userKey, userRunning);
+      else runningByUser.delete(job.userKey);
+      completed++;
+      next();
+    });
+  };
+
+  const next = () => {
+    while (running < concurrency) {
+      // Users already at their running limit keep their place in the rotation
+      const entry = [...queues].find(([userKey]) => hasRoom(userKey));
+      if (!entry) return;
+      const [userKey, jobs] = entry;
+      const job = jobs.shift()!;
+      queues.delete(userKey);
+      if (jobs.length > 0) queues.set(userKey, jobs);
+      queued--;
+      start(job);
+    }
+  };
+
+  return {
+    run<T>(userKey: string, task: () => Promise<T>, signal?: AbortSignal) {
+      return new Promise<T>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(new Error('Execution cancelled'));
+          return;
+        }
+
+        const job: Job = { userKey, task, resolve: resolve as (value: unknown) => void, reject, enqueuedAt: Date.now(), signal };
+        // A free slot means nobody with room is waiting, so the run can start straight away
+        if (running < concurrency && hasRoom(userKey)) {
+          start(job);
+          return;
+        }
+
+        const jobs = queues.get(userKey) ?? [];
+        if (queued >= maxQueue || jobs.length >= maxQueuePerUser) {
+          rejected++;
+          reject(new Error(BUSY_MESSAGE));
+          return;
+        }
+
+        job.onAbort = () => {
+          const waiting = queues.get(userKey);
+          const index = waiting?.indexOf(job) ?? -1;
+          if (!waiting || index < 0) return;
+          waiting.splice(index, 1);
+          if (waiting.length === 0) queues.delete(userKey);
+          queued--;
+          reject(new Error('Execution cancelled'));
+        };
+        signal?.addEventListener('abort', job.onAbort, { once: true });
+        jobs.push(job);
+        queues.set(userKey, jobs);
+        queued++;
+      });
+    },
+
+    metrics() {
+      const lengths = [...queues.values()].map(jobs => jobs.length);
+      return {
+        concurrency,
+        maxQueue,
+        running,
+        queued,
+        waitingUsers: lengths.length,
+        longestUserQueue: Math.max(0, ...lengths),
+        completed,
+        rejected,
+        averageWaitMs: started > 0 ? Math.round(totalWaitMs / started) : 0,
+      };
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { getSessionPool } from './runner';
+import { limitFromEnv } from './sandbox';
+import { PythonVariable } from './types';
+import { createPythonWorker, PythonWorker } from './worker';
+
+const IDLE_TIMEOUT_MS = (Number(process.env.PYTHON_SESSION_IDLE_MINUTES) || 15) * 60 * 1000;
+// Interpreters kept at once; beyond this the least recently used idle one is discarded
+const MAX_SESSIONS = limitFromEnv('PYTHON_MAX_SESSIONS', 20);
+
+// One worker per chat session, created on its first runPython call; kept in order of last use
+const workers = new Map<string, PythonWorker>();
+
+// Busy workers are skipped, so sessions running a cell can briefly exceed the cap
+function evictIdleSessions() {
+  for (const worker of workers.values()) {
+    if (workers.size < MAX_SESSIONS) return;
+    if (!worker.busy) worker.dispose();
+  }
+}
+
+export function getPythonSession(sessionId: string): PythonWorker {
+  let worker = workers.get(sessionId);
+  if (worker?.alive) {
+    workers.delete(sessionId);
+    workers.set(sessionId, worker);
+  } else {
+    evictIdleSessions();
+    const created = createPythonWorker({
+      pool: getSessionPool(),
+      idleTimeoutMs: IDLE_TIMEOUT_MS,
+      // Only forget the worker if it has not been replaced already
+      onExit: () => {
+        if (workers.get(sessionId) === created) workers.delete(sessionId);
+      },
+    });
+    worker = created;
+    workers.set(sessionId, worker);
+  }
+  return worker;
+}
+
+// Variables currently defined, or null when the session has no running interpreter
+export function pythonSessionVariables(sessionId: string): PythonVariable[] | null {
+  const worker = workers.get(sessionId);
+  return worker?.alive ? worker.variables : null;
+}
+
+// Discards the interpreter and its namespace; the next runPython call starts a fresh one
+export function resetPythonSession(sessionId: string): boolean {
+  const worker = workers.get(sessionId);
+  worker?.dispose();
+  return worker !== undefined;
+}
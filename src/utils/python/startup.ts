@@ -0,0 +1,19 @@
+import { checkAllowedModules } from './imports';
+import { getExecutionPolicy, policyPath } from './policy';
+
+// Loads the execution policy, throwing when it is invalid, and starts the check that the allowed modules import
+export function checkExecutionPolicy() {
+  getExecutionPolicy();
+  console.log('Execution policy loaded from', policyPath());
+
+  // Not awaited: importing the allowed modules takes a few seconds, and the server can answer meanwhile
+  checkAllowedModules().then(modules => {
+    const missing = modules.filter(status => !status.importable);
+    if (missing.length > 0) {
+      console.warn(
+        'Allowed Python modules that cannot be imported:\n'
+          + missing.map(status => `  ${status.module}: ${status.error}`).join('\n'),
+      );
+    }
+  });
+}
@@ -0,0 +1,35 @@
+// Result types shared by the Python runner and the chat UI; no server imports here
+import { Figure } from './figures';
+
+// A name defined in a conversation's Python session, as shown to the student and the model
+export interface PythonVariable {
+  name: string;
+  type: string;
+  // Shortened repr
+  value: string;
+}
+
+// One run of model-written code, sent whole to the model and shown as a code cell in the chat
+export interface ExecutionResult {
+  code: string;
+  stdout: string;
+  // Tracebacks and warnings; warnings alone do not make a run fail
+  stderr: string;
+  // 0 when the code ran without an uncaught exception; null when it was stopped or never started
+  exitCode: number | null;
+  wallTimeMs: number;
+  // Peak resident memory of the interpreter, when it could report it
+  peakMemoryMb?: number;
+  timedOut: boolean;
+  // stdout or stderr was cut at the execution policy's output cap
+  truncated: boolean;
+  // Why the code did not run to completion, e.g. it failed validation or hit a resource limit
+  error?: string;
+  figures?: Figure[];
+  // Set for runs in a conversation's persistent session
+  variables?: PythonVariable[];
+}
+
+export function executionSucceeded({ exitCode, error }: Pick<ExecutionResult, 'exitCode' | 'error'>): boolean {
+  return exitCode === 0 && !error;
+}
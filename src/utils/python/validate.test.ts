@@ -0,0 +1,78 @@
+import { execFileSync } from 'child_process';
+import { describe, expect, it } from 'vitest';
+import { formatIssues, ValidationIssue, validationScript } from './validate';
+
+const ALLOWED_MODULES = ['math', 'operator', 'random'];
+
+// The checker only parses the code, so it can run outside the sandbox
+function check(code: string): ValidationIssue[] {
+  const output = execFileSync(process.env.PYTHON_BIN || 'python', ['-c', validationScript(code, ALLOWED_MODULES)]);
+  return JSON.parse(String(output));
+}
+
+const messages = (code: string) => check(code).map(issue => issue.message);
+
+describe('validationScript', { timeout: 20000 }, () => {
+  it('accepts ordinary code', () => {
+    expect(check(`import math
+from random import randint
+
+def area(radius):
+    return math.pi * radius ** 2
+
+if __name__ == '__main__':
+    print(area(randint(1, 3)), 'a_b')`)).toEqual([]);
+  });
+
+  it('refuses modules outside the allowlist and relative imports', () => {
+    expect(messages('import os')).toEqual([expect.stringContaining("Importing 'os' is not allowed")]);
+    expect(messages('from subprocess import run')).toEqual([expect.stringContaining("Importing 'subprocess' is not allowed")]);
+    expect(messages('from . import secrets')).toEqual(['Relative imports are not allowed']);
+  });
+
+  it('refuses builtins that reach the interpreter or the file system', () => {
+    for (const name of ['__import__', 'eval', 'exec', 'open', 'getattr', 'globals', 'vars']) {
+      expect(messages(`${name}('x')`)).toContain(`'${name}' is not allowed`);
+    }
+    expect(messages('__builtins__')).toEqual(["'__builtins__' is not allowed"]);
+  });
+
+  it('refuses introspection through private attributes', () => {
+    expect(messages('().__class__.__bases__[0].__subclasses__()')).toEqual([
+      "Accessing the attribute '__class__' is not allowed",
+      "Accessing the attribute '__bases__' is not allowed",
+      "Accessing the attribute '__subclasses__' is not allowed",
+    ]);
+    expect(messages('import random\nrandom._os')).toEqual(["Accessing the attribute '_os' is not allowed"]);
+  });
+
+  it('refuses attribute lookups by name', () => {
+    expect(messages('from operator import attrgetter')).toEqual(["'attrgetter' is not allowed"]);
+    expect(messages("import operator\noperator.methodcaller('x')")).toEqual(["Accessing the attribute 'methodcaller' is not allowed"]);
+    expect(messages("import operator as o\no.itemgetter(0)")).toEqual(["Accessing the attribute 'itemgetter' is not allowed"]);
+  });
+
+  it('refuses strings that name dunder attributes', () => {
+    for (const code of ["name = '__globals__'", "name = '__cl' 'ass__'", "name = b'__class__'", "name = f'{0}__dict__'"]) {
+      expect(messages(code)).toEqual(['Strings containing a double underscore are not allowed']);
+    }
+  });
+
+  it('points at the offending attribute', () => {
+    expect(check('x = 1\ny = (1).__class__')).toEqual([
+      { line: 2, column: 9, message: "Accessing the attribute '__class__' is not allowed" },
+    ]);
+  });
+
+  it('reports syntax errors', () => {
+    expect(messages('print(')).toEqual([expect.stringMatching(/^SyntaxError/)]);
+  });
+});
+
+describe('formatIssues', () => {
+  it('lists one issue per line', () => {
+    expect(formatIssues([{ line: 2, column: 9, message: 'Not allowed' }])).toBe(
+      'The code was not run because it failed validation:\nLine 2, column 9: Not allowed',
+    );
+  });
+});
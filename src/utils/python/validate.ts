@@ -0,0 +1,89 @@
+// A problem the checker found, positioned so the model can fix that exact spot
+export interface ValidationIssue {
+  line: number;
+  // 1-based, like editors and tracebacks count
+  column: number;
+  message: string;
+}
+
+// Builtins that reach the file system, the interpreter's internals or arbitrary attributes by name
+export const FORBIDDEN_BUILTINS = [
+  '__import__', 'breakpoint', 'compile', 'delattr', 'eval', 'exec', 'exit', 'getattr', 'globals',
+  'help', 'input', 'locals', 'memoryview', 'open', 'quit', 'setattr', 'vars',
+];
+
+// `operator` helpers that look attributes up by a name held in a string, which the attribute checks cannot see
+export const FORBIDDEN_FUNCTIONS = ['attrgetter', 'itemgetter', 'methodcaller'];
+
+// Defines `code_issues(code, allowed_modules)`, which parses the code with Python's own `ast` module and
+// returns the issues as a list of dicts; the code is never executed. Warm workers load it at startup and
+// check each cell before running it. Private attributes are refused too, since modules such as `random`
+// keep `_os` there. Code built at run time can still get past a static check, so this only catches the
+// obvious escapes before they reach the sandbox, which is what actually confines the code.
+export const VALIDATION_HARNESS = `
+import ast
+import json
+
+FORBIDDEN_BUILTINS = set(${JSON.stringify(FORBIDDEN_BUILTINS)})
+FORBIDDEN_FUNCTIONS = set(${JSON.stringify(FORBIDDEN_FUNCTIONS)})
+
+
+def code_issues(code, allowed_modules):
+    try:
+        tree = ast.parse(code, '<cell>')
+    except SyntaxError as error:
+        return [{'line': error.lineno or 1, 'column': error.offset or 1, 'message': f'SyntaxError: {error.msg}'}]
+
+    issues = []
+
+    def report(node, message, line=None, column=None):
+        issues.append({'line': line or node.lineno, 'column': (node.col_offset if column is None else column) + 1, 'message': message})
+
+    def check_module(node, name):
+        if name.split('.')[0] not in allowed_modules:
+            report(node, f"Importing '{name}' is not allowed; allowed modules: {', '.join(sorted(allowed_modules))}")
+
+    for node in ast.walk(tree):
+        if isinstance(node, ast.Import):
+            for alias in node.names:
+                check_module(node, alias.name)
+        elif isinstance(node, ast.ImportFrom):
+            if node.level > 0 or node.module is None:
+                report(node, 'Relative imports are not allowed')
+            else:
+                check_module(node, node.module)
+                for alias in node.names:
+                    if alias.name in FORBIDDEN_FUNCTIONS:
+                        report(node, f"'{alias.name}' is not allowed")
+        elif isinstance(node, ast.Attribute) and (node.attr.startswith('_') or node.attr in FORBIDDEN_FUNCTIONS):
+            # Point at the attribute name rather than the start of the whole expression
+            report(node, f"Accessing the attribute '{node.attr}' is not allowed", node.end_lineno, node.end_col_offset - len(node.attr))
+        elif isinstance(node, ast.Name):
+            if node.id in FORBIDDEN_BUILTINS or node.id in FORBIDDEN_FUNCTIONS:
+                report(node, f"'{node.id}' is not allowed")
+            elif node.id.startswith('__') and node.id != '__name__':
+                report(node, f"'{node.id}' is not allowed")
+        elif isinstance(node, ast.Constant) and isinstance(node.value, (str, bytes)):
+            # Names such as '__class__' held in strings are how attribute lookups by name get past the checks above
+            text = node.value if isinstance(node.value, str) else node.value.decode('latin-1')
+            # '__main__' is allowed for the usual entry point check, as '__name__' is above
+            if '__' in text and text != '__main__':
+                report(node, 'Strings containing a double underscore are not allowed')
+
+    return sorted(issues, key=lambda issue: (issue['line'], issue['column']))
+`;
+
+// A complete script that prints the issues in `code`; JSON literals are valid Python, so the code travels as data
+export function validationScript(code: string, allowedModules: Iterable<string>): string {
+  return `${VALIDATION_HARNESS}
+print(json.dumps(code_issues(${JSON.stringify(code)}, set(${JSON.stringify([...allowedModules])}))))
+`;
+}
+
+// One line per issue, in the form the model is asked to fix
+export function formatIssues(issues: ValidationIssue[]): string {
+  return [
+    'The code was not run because it failed validation:',
+    ...issues.map(({ line, column, message }) => `Line ${line}, column ${column}: ${message}`),
+  ].join('\n');
+}
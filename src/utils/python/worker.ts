@@ -0,0 +1,261 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { createInterface } from 'readline';
+import { join } from 'path';
+import { FigureFormat, readFigures } from './harness';
+import { WARM_START, WarmWorker, WorkerPool } from './pool';
+import { capStream, kilobytesToMb, RunLimits, runBudget, shareWithSandbox } from './sandbox';
+import { ExecutionResult, PythonVariable } from './types';
+import { formatIssues, ValidationIssue } from './validate';
+
+// A cell's result; the caller adds the code
+export type CellResult = Omit<ExecutionResult, 'code'>;
+
+export interface RunCellOptions {
+  figureFormat: FigureFormat;
+  limits: RunLimits;
+  // The worker checks the cell against these before running it
+  allowedModules: string[];
+  signal?: AbortSignal;
+}
+
+export interface PythonWorker {
+  run(code: string, options: RunCellOptions): Promise<CellResult>;
+  // Variables after the last cell that finished
+  readonly variables: PythonVariable[];
+  readonly alive: boolean;
+  // A cell is running or waiting
+  readonly busy: boolean;
+  dispose(): void;
+}
+
+export interface PythonWorkerOptions {
+  // Where the interpreter comes from; its memory ceiling is the hard limit, and each cell's own limits may be lower
+  pool: WorkerPool;
+  // The worker exits after this long without a cell
+  idleTimeoutMs: number;
+  onExit?: () => void;
+}
+
+// Time a cell gets to stop after an interrupt before the whole worker is killed
+const INTERRUPT_GRACE_MS = 1000;
+
+// Reads one JSON request per line and answers with one JSON line, keeping `namespace` between cells.
+// Cell output is captured, so the real stdout only ever carries protocol messages. A cell that fails
+// validation is answered with its issues and never runs.
+export const SESSION_SCRIPT = `${WARM_START}
+import io
+import signal
+import types
+
+protocol = sys.stdout
+namespace = {'__name__': '__main__'}
+running = False
+
+
+def interrupt(signum, frame):
+    # Only interrupt cells; a late signal must not kill the idle worker
+    if running:
+        raise KeyboardInterrupt
+
+
+signal.signal(signal.SIGINT, interrupt)
+
+
+def preview(value):
+    try:
+        text = ' '.join(repr(value).split())
+    except Exception:
+        text = '<unprintable>'
+    return text if len(text) <= 80 else text[:77] + '...'
+
+
+def variables():
+    return [
+        {'name': name, 'type': type(value).__name__, 'value': preview(value)}
+        for name, value in namespace.items()
+        if not name.startswith('_') and not isinstance(value, types.ModuleType)
+    ]
+
+
+for line in sys.stdin:
+    request = json.loads(line)
+    stdout, stderr = io.StringIO(), io.StringIO()
+    # Each cell gets its own CPU budget, and the hard CPU limit stays open for the next one
+    allow_run(request['limits'])
+    issues = code_issues(request['code'], set(request['allowedModules']))
+    ok = False
+    if not issues:
+        running = True
+        try:
+            with contextlib.redirect_stdout(stdout), contextlib.redirect_stderr(stderr):
+                ok = run_cell(request['code'], namespace, request['figureDir'], request['figureFormat'])
+        except KeyboardInterrupt:
+            stderr.write('KeyboardInterrupt\\n')
+        finally:
+            running = False
+    protocol.write(json.dumps({
+        'ok': ok,
+        'issues': issues,
+        'stdout': stdout.getvalue(),
+        'stderr': stderr.getvalue(),
+        'variables': variables(),
+        'peakMemoryKb': resource.getrusage(resource.RUSAGE_SELF).ru_maxrss,
+    }) + '\\n')
+    protocol.flush()
+`;
+
+type WorkerReply = { ok: boolean; issues: ValidationIssue[]; stdout: string; stderr: string; variables: PythonVariable[]; peakMemoryKb: number };
+
+// One long-lived interpreter; cells run one at a time in the order they were submitted
+export function createPythonWorker({ pool, idleTimeoutMs, onExit }: PythonWorkerOptions): PythonWorker {
+  // Taken from the pool by the first cell
+  let child: Promise<WarmWorker> | null = null;
+  let alive = true;
+  let waiting = 0;
+  let variables: PythonVariable[] = [];
+  let queue: Promise<unknown> = Promise.resolve();
+  let idleTimer: NodeJS.Timeout | undefined;
+  // Why the interpreter ended on its own, e.g. a cell used up its CPU time
+  let exitReason: string | undefined;
+  // Resolves the cell that is running; only one is in flight at a time
+  let pending: { resolve: (reply: WorkerReply) => void; reject: (error: Error) => void } | null = null;
+
+  const dispose = () => {
+    if (!alive) return;
+    alive = false;
+    clearTimeout(idleTimer);
+    pending?.reject(new Error('The Python session was stopped'));
+    pending = null;
+    // Also reaches an interpreter that is still being acquired
+    child?.then(({ child: interpreter, directory }) => {
+      interpreter.kill('SIGKILL');
+      return rm(directory, { recursive: true, force: true });
+    }).catch(error => {
+      console.error('Failed to cleanup Python session directory:', error);
+    });
+    onExit?.();
+  };
+
+  const acquireWorker = async () => {
+    const worker = await pool.acquire();
+    const interpreter = worker.child;
+    interpreter.stderr.on('data', chunk => console.error('Python session:', String(chunk)));
+    interpreter.on('error', error => {
+      console.error('Python session failed:', error);
+      dispose();
+    });
+    interpreter.on('exit', (_code, signal) => {
+      if (signal === 'SIGXCPU') exitReason = 'CPU time limit exceeded';
+      dispose();
+    });
+    createInterface({ input: interpreter.stdout }).on('line', line => {
+      const current = pending;
+      pending = null;
+      try {
+        current?.resolve(JSON.parse(line));
+      } catch (error) {
+        current?.reject(error as Error);
+      }
+    });
+    return worker;
+  };
+
+  const start = () => {
+    child ??= acquireWorker().catch(error => {
+      dispose();
+      throw error;
+    });
+    return child;
+  };
+
+  const execute = async (code: string, { figureFormat, limits, allowedModules, signal }: RunCellOptions): Promise<CellResult> => {
+    clearTimeout(idleTimer);
+    const startedAt = Date.now();
+    const notRun = (error: string, remaining = variables): CellResult => ({
+      stdout: '', stderr: '', exitCode: null, wallTimeMs: Date.now() - startedAt, timedOut: false, truncated: false, error, variables: remaining,
+    });
+
+    const { child: interpreter, directory } = await start();
+    if (!alive) {
+      return notRun('The Python session was stopped');
+    }
+    if (signal?.aborted) {
+      return notRun('Execution cancelled');
+    }
+
+    const figureDir = await mkdtemp(join(directory, 'cell-'));
+    await shareWithSandbox(figureDir);
+    let stopReason: string | undefined;
+    let killTimer: NodeJS.Timeout | undefined;
+    // SIGINT raises KeyboardInterrupt in the cell and keeps the namespace; a cell that ignores it loses the worker
+    const stop = (reason: string) => {
+      stopReason ??= reason;
+      interpreter.kill('SIGINT');
+      killTimer ??= setTimeout(dispose, INTERRUPT_GRACE_MS);
+    };
+    const onAbort = () => stop('Execution cancelled');
+    const timeout = setTimeout(() => stop('Execution timed out'), limits.timeoutMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const reply = await new Promise<WorkerReply>((resolve, reject) => {
+        pending = { resolve, reject };
+        interpreter.stdin.write(`${JSON.stringify({ code, figureDir, figureFormat, allowedModules, limits: runBudget(limits) })}\n`);
+      });
+      variables = reply.variables;
+      if (reply.issues.length > 0) {
+        return notRun(formatIssues(reply.issues));
+      }
+      const figures = await readFigures(figureDir);
+      const stdout = capStream(reply.stdout, limits.outputChars);
+      const stderr = capStream(reply.stderr, limits.outputChars);
+      return {
+        stdout: stdout.text,
+        stderr: stderr.text,
+        // An interrupted cell is reported as stopped even though the worker caught the interrupt
+        exitCode: stopReason ? null : reply.ok ? 0 : 1,
+        wallTimeMs: Date.now() - startedAt,
+        peakMemoryMb: kilobytesToMb(reply.peakMemoryKb),
+        timedOut: stopReason === 'Execution timed out',
+        truncated: stdout.truncated || stderr.truncated,
+        ...(stopReason ? { error: stopReason } : {}),
+        ...(figures.length > 0 ? { figures } : {}),
+        variables,
+      };
+    } catch {
+      return {
+        ...notRun(`${stopReason ?? exitReason ?? 'The Python process exited'}; the Python session was restarted and its variables are gone`, []),
+        timedOut: stopReason === 'Execution timed out',
+      };
+    } finally {
+      clearTimeout(timeout);
+      clearTimeout(killTimer);
+      signal?.removeEventListener('abort', onAbort);
+      await rm(figureDir, { recursive: true, force: true }).catch(() => undefined);
+      if (alive) {
+        idleTimer = setTimeout(dispose, idleTimeoutMs);
+      }
+    }
+  };
+
+  return {
+    run(code, options) {
+      waiting++;
+      const result = queue.then(() => execute(code, options)).finally(() => {
+        waiting--;
+      });
+      queue = result.catch(() => undefined);
+      return result;
+    },
+    get variables() {
+      return variables;
+    },
+    get alive() {
+      return alive;
+    },
+    get busy() {
+      return waiting > 0;
+    },
+    dispose,
+  };
+}
@@ -0,0 +1,157 @@
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import crypto from 'crypto';
+import { NewMessage, Session, SessionStore, SessionSummary } from './types';
+import { withParentIds } from './tree';
+
+export const DEFAULT_SESSION_TITLE = 'New conversation';
+
+// Session ids are UUIDs; anything else is rejected before it reaches the filesystem
+const SESSION_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+function toSummary({ id, title, createdAt, updatedAt, messages }: Session): SessionSummary {
+  return { id, title, createdAt, updatedAt, messageCount: messages.length };
+}
+
+// Stores one JSON file per session under `directory`
+export function createFileSessionStore(directory = process.env.SESSIONS_DIR || join(process.cwd(), '.data', 'sessions')): SessionStore {
+  // Serialises read-modify-write cycles per session so concurrent appends are not lost
+  const locks = new Map<string, Promise<unknown>>();
+
+  const sessionPath = (id: string) => join(directory, `${id}.json`);
+
+  const withLock = <T>(id: string, task: () => Promise<T>): Promise<T> => {
+    const previous = locks.get(id) ?? Promise.resolve();
+    const next = previous.then(task, task);
+    locks.set(id, next.catch(() => undefined));
+    return next;
+  };
+
+  const read = async (id: string): Promise<Session | null> => {
+    if (!SESSION_ID_PATTERN.test(id)) return null;
+    try {
+      const session = JSON.parse(await readFile(sessionPath(id), 'utf-8'));
+      const messages = withParentIds(session.messages);
+      return {
+        ...session,
+        messages,
+        activeLeafId: session.activeLeafId === undefined ? messages[messages.length - 1]?.id ?? null : session.activeLeafId,
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+
+  const write = async (session: Session) => {
+    await mkdir(directory, { recursive: true });
+    // Write to a temporary file first so readers never see a half-written session
+    const tempPath = `${sessionPath(session.id)}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    await writeFile(tempPath, JSON.stringify(session), 'utf-8');
+    await rename(tempPath, sessionPath(session.id));
+  };
+
+  const update = (id: string, change: (session: Session) => void) =>
+    withLock(id, async () => {
+      const session = await read(id);
+      if (!session) return null;
+      change(session);
+      session.updatedAt = new Date().toISOString();
+      await write(session);
+      return session;
+    });
+
+  return {
+    async create(ownerId, title = DEFAULT_SESSION_TITLE) {
+      const now = new Date().toISOString();
+      const session: Session = {
+        id: crypto.randomUUID(),
+        ownerId,
+        title,
+        createdAt: now,
+        updatedAt: now,
+        messages: [],
+        activeLeafId: null,
+      };
+      await write(session);
+      return session;
+    },
+
+    async list(ownerId) {
+      let files: string[];
+      try {
+        files = await readdir(directory);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+
+      const sessions = await Promise.all(
+        files
+          .filter(file => file.endsWith('.json'))
+          .map(file => read(file.replace(/\.json$/, ''))),
+      );
+
+      return sessions
+        .filter((session): session is Session => session !== null && session.ownerId === ownerId)
+        .map(toSummary)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    },
+
+    get: read,
+
+    updateSummary(id, summary) {
+      return update(id, session => {
+        session.summary = summary;
+      });
+    },
+
+    setActiveLeaf(id, leafId) {
+      return update(id, session => {
+        session.activeLeafId = leafId;
+      });
+    },
+
+    recordHintsUsed(id, messageId, count) {
+      return update(id, session => {
+        const message = session.messages.find(candidate => candidate.id === messageId);
+        if (message) {
+          message.hintsUsed = Math.max(message.hintsUsed ?? 0, count);
+        }
+      });
+    },
+
+    rename(id, title) {
+      return update(id, session => {
+        session.title = title;
+      });
+    },
+
+    delete(id) {
+      return withLock(id, async () => {
+        if (!SESSION_ID_PATTERN.test(id)) return false;
+        try {
+          await unlink(sessionPath(id));
+          return true;
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+          throw error;
+        }
+      });
+    },
+
+    appendMessages(id, messages: NewMessage[]) {
+      return update(id, session => {
+        const createdAt = new Date().toISOString();
+        session.messages.push(...messages.map(message => ({ ...message, createdAt })));
+        session.activeLeafId = messages[messages.length - 1]?.id ?? session.activeLeafId;
+
+        // Name untitled sessions after their first question
+        const firstQuestion = session.messages.find(message => message.role === 'user');
+        if (session.title === DEFAULT_SESSION_TITLE && firstQuestion) {
+          session.title = firstQuestion.content.slice(0, 60).trim() || DEFAULT_SESSION_TITLE;
+        }
+      });
+    },
+  };
+}
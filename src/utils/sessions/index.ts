@@ -0,0 +1,27 @@
+import { createFileSessionStore } from './fileStore';
+import { Session, SessionStore } from './types';
+
+export * from './types';
+export * from './tree';
+export { DEFAULT_SESSION_TITLE } from './fileStore';
+
+let store: SessionStore | null = null;
+
+export function getSessionStore(): SessionStore {
+  if (!store) {
+    store = createFileSessionStore();
+  }
+  return store;
+}
+
+// A session as the browser gets it: provider turns hold private tool results and are only replayed to the model
+export function toClientSession(session: Session): Session {
+  return { ...session, messages: session.messages.map(message => ({ ...message, turns: undefined })) };
+}
+
+// The session when it belongs to `learnerId`; someone else's session is reported as missing
+export async function getOwnedSession(id: string, learnerId: string | null): Promise<Session | null> {
+  if (!learnerId) return null;
+  const session = await getSessionStore().get(id);
+  return session?.ownerId === learnerId ? session : null;
+}
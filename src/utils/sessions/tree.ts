@@ -0,0 +1,41 @@
+import type { StoredMessage } from './types';
+
+// Messages form a tree: regenerating a reply or editing a question adds a sibling instead of overwriting.
+// Kept free of server imports so the chat page can walk the same tree.
+
+type TreeNode = Pick<StoredMessage, 'id' | 'parentId' | 'createdAt'>;
+
+// The branch ending at `leafId`, ordered from the first message down
+export function branchPath<T extends TreeNode>(messages: T[], leafId: string | null): T[] {
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const path: T[] = [];
+  let node = leafId ? byId.get(leafId) : undefined;
+  while (node && path.length < messages.length) {
+    path.unshift(node);
+    node = node.parentId ? byId.get(node.parentId) : undefined;
+  }
+  return path;
+}
+
+// Alternatives to `message`, including itself, oldest first
+export function siblingsOf<T extends TreeNode>(messages: T[], message: T): T[] {
+  return messages.filter(candidate => candidate.parentId === message.parentId);
+}
+
+// Follows the newest reply at each level, so switching to a sibling reopens the branch last worked on
+export function latestLeaf<T extends TreeNode>(messages: T[], id: string): string {
+  let current = id;
+  for (;;) {
+    const children = messages.filter(message => message.parentId === current);
+    if (children.length === 0) return current;
+    current = children.reduce((latest, child) => (child.createdAt >= latest.createdAt ? child : latest)).id;
+  }
+}
+
+// Sessions saved before branching hold a flat list; chain each message to the one before it
+export function withParentIds(messages: (Omit<StoredMessage, 'parentId'> & { parentId?: string | null })[]): StoredMessage[] {
+  return messages.map((message, index) => ({
+    ...message,
+    parentId: message.parentId === undefined ? messages[index - 1]?.id ?? null : message.parentId,
+  }));
+}
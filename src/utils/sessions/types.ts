@@ -0,0 +1,62 @@
+import type { HistorySummary } from '../historyBudget';
+import type { ChatTurn } from '../llm/types';
+import type { ToolOutput } from '../tools/registry';
+import type { Verification } from '../verification';
+
+// Assistant replies the student stopped part-way; absent for complete messages
+export type MessageStatus = 'cancelled';
+
+export interface StoredMessage {
+  id: string;
+  // Message this one answers or follows; null for the opening question of a branch
+  parentId: string | null;
+  role: 'user' | 'assistant';
+  content: string;
+  functionOutputs?: ToolOutput[];
+  turns?: ChatTurn[];
+  status?: MessageStatus;
+  verification?: Verification;
+  // Hints the student unlocked for the problem this message poses or answers
+  hintsUsed?: number;
+  createdAt: string;
+}
+
+export type NewMessage = Omit<StoredMessage, 'createdAt'>;
+
+export interface Session {
+  id: string;
+  // Learner cookie id of the student who started the conversation; only they can open it
+  ownerId?: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  // Every message of every branch, in the order they were added
+  messages: StoredMessage[];
+  // Last message of the branch the student was viewing
+  activeLeafId: string | null;
+  summary?: HistorySummary;
+}
+
+export interface SessionSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+// Storage backend for conversations; methods resolve to null when the session does not exist
+export interface SessionStore {
+  create(ownerId: string, title?: string): Promise<Session>;
+  // Sessions of one student, most recently updated first
+  list(ownerId: string): Promise<SessionSummary[]>;
+  get(id: string): Promise<Session | null>;
+  rename(id: string, title: string): Promise<Session | null>;
+  delete(id: string): Promise<boolean>;
+  // Adds messages to the tree and makes the last one the active leaf
+  appendMessages(id: string, messages: NewMessage[]): Promise<Session | null>;
+  setActiveLeaf(id: string, leafId: string): Promise<Session | null>;
+  // Only ever raises the count, so unlocked hints stay counted
+  recordHintsUsed(id: string, messageId: string, count: number): Promise<Session | null>;
+  updateSummary(id: string, summary: HistorySummary): Promise<Session | null>;
+}
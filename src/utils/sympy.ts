@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { runPythonScript, ScriptOptions } from './executePython';
+
+// SymPy's parser evaluates its input, so expressions are limited to letters, digits and operators:
+// without quotes, underscores or attribute access they cannot reach Python internals
+export const EXPRESSION_PATTERN = /^(?:[A-Za-z0-9\s+\-*/^(),=]|\.(?=\d))+$/;
+
+export const sympyExpression = (description?: string) => {
+  const schema = z.string()
+    .trim()
+    .min(1)
+    .max(500)
+    .regex(EXPRESSION_PATTERN, 'Use only letters, digits, spaces and + - * / ^ ( ) , = in expressions');
+  return description ? schema.describe(description) : schema;
+};
+
+export const sympyVariable = () => z.string().regex(/^[A-Za-z][A-Za-z0-9]*$/);
+
+
+// Defines `make_parser(local)`, which returns a parse function restricted to SymPy names
+const PARSER_PRELUDE = `
+import json
+import sympy
+from sympy.parsing.sympy_parser import (
+    convert_equals_signs,
+    convert_xor,
+    implicit_application,
+    implicit_multiplication,
+    parse_expr,
+    standard_transformations,
+)
+
+TRANSFORMATIONS = standard_transformations + (
+    implicit_multiplication,
+    implicit_application,
+    convert_xor,
+    convert_equals_signs,
+)
+
+
+def make_parser(local):
+    # SymPy names only and no builtins, so parsed input cannot call back into Python
+    namespace = {name: getattr(sympy, name) for name in sympy.__all__}
+    namespace['__builtins__'] = {}
+
+    def parse(text):
+        return parse_expr(text, local_dict=local, global_dict=namespace, transformations=TRANSFORMATIONS)
+
+    return parse
+`;
+
+const JSON_EPILOGUE = `
+try:
+    print(json.dumps(main(json.loads(ARGS))))
+except Exception as error:
+    print(json.dumps({'error': f'{type(error).__name__}: {error}'}))
+`;
+
+// Runs `body`, which must define `main(args)` returning JSON-serialisable data, and resolves with its result.
+// Arguments travel as a JSON string literal, never as code.
+export async function runSympyScript<Result>(body: string, args: unknown, options: ScriptOptions): Promise<Result> {
+  const script = `ARGS = ${JSON.stringify(JSON.stringify(args))}\n${PARSER_PRELUDE}\n${body}\n${JSON_EPILOGUE}`;
+  const { output, error } = await runPythonScript(script, options);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const parsed = JSON.parse(output ?? '{}');
+  if (parsed.error) {
+    throw new Error(parsed.error);
+  }
+  return parsed as Result;
+}
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { defineTool } from './registry';
+
+const MERMAID_TYPES = ['flowchart', 'sequence', 'class', 'state', 'er', 'gantt'] as const;
+type MermaidType = typeof MERMAID_TYPES[number];
+
+const validateMermaidCode = (code: string, type: MermaidType) => {
+  const typeMap: Record<MermaidType, string> = {
+    'flowchart': 'flowchart TD',
+    'sequence': 'sequenceDiagram',
+    'class': 'classDiagram',
+    'state': 'stateDiagram-v2',
+    'er': 'erDiagram',
+    'gantt': 'gantt'
+  };
+
+  let processedCode = code.trim()
+    .replace(/\\n/g, '\n')
+    .replace(/\\\\/g, '\\')
+    .replace(/\n{2,}/g, '\n')
+    .replace(/^TD;/gm, '')
+    .replace(/^\s*TD\s*$/gm, '');
+
+  // Clean up flowchart declarations
+  if (type === 'flowchart') {
+    processedCode = processedCode
+      .replace(/^(?:graph|flowchart)\s+TD\s+(?:graph|flowchart)\s+TD/gm, typeMap[type])
+      .replace(/^(?:graph|flowchart)\s+TD\s+TD/gm, typeMap[type]);
+  }
+
+  // Ensure proper diagram type prefix
+  if (!processedCode.startsWith(typeMap[type])) {
+    processedCode = `${typeMap[type]}\n${processedCode}`;
+  }
+
+  return processedCode;
+};
+
+export const generateMermaid = defineTool({
+  name: 'generateMermaid',
+  description: 'Generates a Mermaid diagram',
+  schema: z.object({
+    code: z.string().min(1).describe('Mermaid diagram code'),
+    type: z.enum(MERMAID_TYPES).describe('Type of diagram (flowchart, sequence, etc.)'),
+  }),
+  outputKind: 'mermaid',
+  handler: async ({ code, type }) => validateMermaidCode(code, type),
+});
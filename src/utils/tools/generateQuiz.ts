@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { quizDifficulty } from '../learnerProfile';
+import { defineTool } from './registry';
+
+const quizSchema = z.object({
+  type: z.enum(['mcq', 'fillInBlank']).describe('Type of quiz (mcq or fillInBlank)'),
+  question: z.string().min(1).describe('The quiz question text'),
+  options: z.array(z.string()).optional().describe('Options for MCQ (required for MCQ type)'),
+  correctAnswer: z.string().min(1).describe('The correct answer'),
+}).superRefine((quiz, ctx) => {
+  if (quiz.type !== 'mcq') return;
+
+  if (!quiz.options || quiz.options.length < 2) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: 'MCQ quizzes need at least two options' });
+  } else if (!quiz.options.includes(quiz.correctAnswer)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['correctAnswer'], message: 'correctAnswer must be one of the options' });
+  }
+});
+
+export type Quiz = z.infer<typeof quizSchema> & { difficulty: string };
+
+export const generateQuiz = defineTool({
+  name: 'generateQuiz',
+  description: 'Generates a quiz question',
+  schema: quizSchema,
+  outputKind: 'quiz',
+  // Difficulty follows the learner's grade band so the UI can label it
+  handler: async (quiz, { profile }): Promise<Quiz> => ({ ...quiz, difficulty: quizDifficulty(profile) }),
+});
@@ -0,0 +1,10 @@
+import { chartSpecSchema, getChart as buildChart } from '../chartUtils';
+import { defineTool } from './registry';
+
+export const getChart = defineTool({
+  name: 'getChart',
+  description: 'Generates a chart from data: bar, line, pie or doughnut charts of labelled values, scatter and bubble charts of x/y points, or a histogram of raw values. Supports several named datasets, axis titles, logarithmic scales, legend position and colour palettes.',
+  schema: chartSpecSchema,
+  outputKind: 'chart',
+  handler: spec => buildChart(spec),
+});
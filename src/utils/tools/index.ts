@@ -0,0 +1,35 @@
+import { FunctionCallPart } from '../llm';
+import { generateMermaid } from './generateMermaid';
+import { generateQuiz } from './generateQuiz';
+import { getChart } from './getChart';
+import { plotFunction } from './plotFunction';
+import { runPython } from './runPython';
+import { showSteps } from './showSteps';
+import { symbolic } from './symbolic';
+import { templateQuiz } from './templateQuiz';
+import { runToolCall, toToolDeclaration, ToolContext, ToolDefinition, ToolOutput } from './registry';
+
+export * from './registry';
+export type { Quiz } from './generateQuiz';
+export type { TemplateQuiz } from './templateQuiz';
+export type { SymbolicResult } from './symbolic';
+export { stepsToText } from './showSteps';
+export type { StepSolution } from './showSteps';
+
+export const tools: ToolDefinition[] = [runPython, symbolic, showSteps, plotFunction, getChart, generateMermaid, templateQuiz, generateQuiz];
+
+export const toolDeclarations = tools.map(toToolDeclaration);
+
+// Registered tools whose names are listed, in registry order
+export function selectTools(names: string[]): ToolDefinition[] {
+  return tools.filter(tool => names.includes(tool.name));
+}
+
+// Runs every call from one model turn concurrently, keeping outputs in call order
+export function runToolCalls(
+  functionCalls: FunctionCallPart[],
+  available: ToolDefinition[],
+  context: ToolContext,
+): Promise<ToolOutput[]> {
+  return Promise.all(functionCalls.map(call => runToolCall(available, call, context)));
+}
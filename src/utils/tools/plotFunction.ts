@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { plotFunctions, summarizePlot } from '../functionPlot';
+import { compileExpression, RESERVED_NAMES, SUPPORTED_FUNCTIONS } from '../mathExpression';
+import { defineTool } from './registry';
+
+const rangeSchema = (description: string) => z.object({
+  min: z.number(),
+  max: z.number(),
+}).refine(({ min, max }) => min < max, 'min must be less than max').describe(description);
+
+const plotFunctionSchema = z.object({
+  functions: z.array(z.object({
+    expression: z.string().trim().min(1).max(200)
+      .describe(`Expression in the variable, e.g. "sin(x)/x" or "2x^2 - 3". Supports + - * / ^, pi, e and ${SUPPORTED_FUNCTIONS.join(', ')}.`),
+    label: z.string().max(60).optional().describe('Legend label; defaults to "y = <expression>".'),
+  })).min(1).max(6).describe('Functions to plot on the same axes.'),
+  variable: z.string().regex(/^[A-Za-z][A-Za-z0-9]*$/).default('x')
+    .refine(name => !RESERVED_NAMES.includes(name), 'The variable cannot be a function or constant name')
+    .describe('Independent variable.'),
+  domain: rangeSchema('Interval of the variable to plot.'),
+  samples: z.number().int().min(10).max(2000).default(400).describe('Number of evenly spaced sample points.'),
+  style: z.enum(['line', 'points']).default('line').describe('Connected curve or separate points.'),
+  yRange: rangeSchema('Visible y interval; fitted to the curves when omitted.').optional(),
+  xTitle: z.string().max(60).optional().describe('x-axis title; defaults to the variable.'),
+  yTitle: z.string().max(60).optional().describe('y-axis title.'),
+}).superRefine(({ functions, variable }, ctx) => {
+  // Report parse errors with their position so the model can fix the expression
+  functions.forEach(({ expression }, index) => {
+    try {
+      compileExpression(expression, variable);
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: error instanceof Error ? error.message : String(error),
+        path: ['functions', index, 'expression'],
+      });
+    }
+  });
+});
+
+export const plotFunction = defineTool({
+  name: 'plotFunction',
+  description: 'Plots one or more functions of a variable over a domain. Points are computed on the server, and the curve is broken at discontinuities and asymptotes, so use this instead of getChart for function graphs.',
+  schema: plotFunctionSchema,
+  outputKind: 'chart',
+  handler: async ({ functions, ...options }) => plotFunctions({ series: functions, ...options }),
+  // The model gets each curve's label, breaks and range instead of hundreds of sampled points
+  forModel: summarizePlot,
+});
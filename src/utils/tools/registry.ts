@@ -0,0 +1,157 @@
+import { z } from 'zod';
+import { FunctionCallPart, ToolDeclaration, ToolParameterSchema } from '../llm';
+import type { LearnerProfile } from '../learnerProfile';
+import type { TutorMode } from '../tutorModes';
+
+// How the chat UI should render a tool's output
+export const TOOL_OUTPUT_KINDS = ['text', 'execution', 'chart', 'mermaid', 'quiz', 'math', 'steps', 'error'] as const;
+export type ToolOutputKind = typeof TOOL_OUTPUT_KINDS[number];
+
+// Per-request information handed to every tool handler
+export interface ToolContext {
+  profile: LearnerProfile;
+  // Aborted when the student cancels the reply; long-running handlers should stop early
+  signal?: AbortSignal;
+  // Set when the conversation is stored, so tools can keep per-conversation state
+  sessionId?: string;
+  // The student's cookie id, when they have one; their Python runs wait in their own queue
+  learnerId?: string;
+  // The tutor mode of the turn, which picks the execution policy for Python tools
+  mode?: TutorMode;
+}
+
+export interface ToolDefinition<Schema extends z.ZodTypeAny = z.ZodTypeAny, Output = unknown> {
+  name: string;
+  description: string;
+  schema: Schema;
+  outputKind: ToolOutputKind;
+  // Method syntax keeps definitions with narrower schemas assignable to ToolDefinition
+  handler(args: z.infer<Schema>, context: ToolContext): Promise<Output>;
+  // What the model is sent instead of the full output, e.g. without images only the student needs
+  forModel?(output: Output): unknown;
+}
+
+// Client-visible result of one tool call, kept in call order
+export interface ToolOutput {
+  name: string;
+  kind: ToolOutputKind;
+  output: unknown;
+}
+
+// Returned to the model in place of a result so it can correct its arguments and retry
+export interface ToolError {
+  error: {
+    type: 'invalid_arguments' | 'unknown_tool' | 'execution_failed';
+    message: string;
+    issues?: { path: string; message: string }[];
+  };
+}
+
+export function defineTool<Schema extends z.ZodTypeAny, Output>(tool: ToolDefinition<Schema, Output>): ToolDefinition<Schema, Output> {
+  return tool;
+}
+
+// Converts the subset of zod used by tool schemas into a function-calling parameter schema
+export function zodToParameterSchema(schema: z.ZodTypeAny): ToolParameterSchema {
+  const description = schema.description;
+  const withDescription = (parameter: ToolParameterSchema): ToolParameterSchema =>
+    description && !parameter.description ? { ...parameter, description } : parameter;
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return withDescription(zodToParameterSchema(schema.unwrap()));
+  }
+  if (schema instanceof z.ZodDefault) {
+    return withDescription(zodToParameterSchema(schema.removeDefault()));
+  }
+  if (schema instanceof z.ZodEffects) {
+    return withDescription(zodToParameterSchema(schema.innerType()));
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape: Record<string, z.ZodTypeAny> = schema.shape;
+    const properties: Record<string, ToolParameterSchema> = {};
+    const required: string[] = [];
+
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = zodToParameterSchema(value);
+      if (!value.isOptional()) {
+        required.push(key);
+      }
+    }
+
+    return withDescription({ type: 'object', properties, required });
+  }
+  if (schema instanceof z.ZodArray) {
+    return withDescription({ type: 'array', items: zodToParameterSchema(schema.element) });
+  }
+  if (schema instanceof z.ZodEnum) {
+    return withDescription({ type: 'string', enum: [...schema.options] });
+  }
+  if (schema instanceof z.ZodLiteral && typeof schema.value === 'string') {
+    return withDescription({ type: 'string', enum: [schema.value] });
+  }
+  if (schema instanceof z.ZodString) {
+    return withDescription({ type: 'string' });
+  }
+  if (schema instanceof z.ZodNumber) {
+    return withDescription({ type: schema.isInt ? 'integer' : 'number' });
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return withDescription({ type: 'boolean' });
+  }
+
+  throw new Error(`Unsupported zod type in tool schema: ${schema.constructor.name}`);
+}
+
+export function toToolDeclaration(tool: ToolDefinition): ToolDeclaration {
+  return {
+    name: tool.name,
+    description: tool.description,
+    parameters: zodToParameterSchema(tool.schema),
+  };
+}
+
+// The function response content for one output; errors always go back unchanged so the model can react
+export function modelContent(tools: ToolDefinition[], { name, kind, output }: ToolOutput): unknown {
+  const tool = tools.find(candidate => candidate.name === name);
+  return kind !== 'error' && tool?.forModel ? tool.forModel(output) : output;
+}
+
+function toolError(type: ToolError['error']['type'], message: string, issues?: ToolError['error']['issues']): ToolError {
+  return { error: { type, message, ...(issues ? { issues } : {}) } };
+}
+
+// Validates the model's arguments and runs the matching handler; never throws
+export async function runToolCall(
+  tools: ToolDefinition[],
+  { name, args }: FunctionCallPart,
+  context: ToolContext,
+): Promise<ToolOutput> {
+  const tool = tools.find(candidate => candidate.name === name);
+  if (!tool) {
+    return { name, kind: 'error', output: toolError('unknown_tool', `Unknown function: ${name}`) };
+  }
+
+  const parsed = tool.schema.safeParse(args ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    }));
+    return {
+      name,
+      kind: 'error',
+      output: toolError('invalid_arguments', `Invalid arguments for ${name}; fix them and call it again`, issues),
+    };
+  }
+
+  try {
+    return { name, kind: tool.outputKind, output: await tool.handler(parsed.data, context) };
+  } catch (error) {
+    console.error(`Tool ${name} failed:`, error);
+    return {
+      name,
+      kind: 'error',
+      output: toolError('execution_failed', error instanceof Error ? error.message : String(error)),
+    };
+  }
+}
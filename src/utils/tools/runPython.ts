@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { executePythonCode } from '../executePython';
+import { FIGURE_FORMATS } from '../python/harness';
+import { runPolicy } from '../python/policy';
+import { defineTool } from './registry';
+
+export const runPython = defineTool({
+  name: 'runPython',
+  description: 'Executes AI-generated Python code for mathematical demonstrations. Not for user-provided code. Every matplotlib figure left open when the code finishes is shown to the student as an image; do not call plt.show() or savefig. Variables and imports persist across calls in the same conversation until the student resets the session, so later calls can build on earlier ones. The result has stdout, stderr, exitCode and timing; exitCode 0 means the code ran, even if stderr holds warnings.',
+  schema: z.object({
+    code: z.string().min(1).describe('AI-generated Python code for mathematical calculations.'),
+    figureFormat: z.enum(FIGURE_FORMATS).default('png').describe('Image format for matplotlib figures; svg suits line art.'),
+  }),
+  outputKind: 'execution',
+  handler: ({ code, figureFormat }, { signal, sessionId, learnerId, mode }) => executePythonCode(code, {
+    signal,
+    policy: runPolicy('runPython', mode),
+    figureFormat,
+    sessionId,
+    userKey: learnerId ?? sessionId,
+  }),
+  // The model gets the whole result, except that it only needs to know the figures exist, not their
+  // pixels, and the variables' names and types
+  forModel: ({ figures, variables, ...result }) => ({
+    ...result,
+    ...(figures ? { figures: figures.map((figure, index) => `Figure ${index + 1} (${figure.format}) is shown to the student`) } : {}),
+    ...(variables ? { variables: variables.map(({ name, type }) => `${name}: ${type}`) } : {}),
+  }),
+});
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { defineTool } from './registry';
+
+const stepSolutionSchema = z.object({
+  problem: z.string().min(1).describe('The problem being solved, in one line; LaTeX in $ signs is allowed.'),
+  steps: z.array(z.object({
+    title: z.string().min(1).describe('Short name for the step, e.g. "Differentiate the outer function".'),
+    latex: z.string().min(1).describe('The expression or equation after this step, as LaTeX without $ delimiters.'),
+    justification: z.string().min(1).describe('Why the step is valid, e.g. "apply the chain rule".'),
+    toolResult: z.string().optional().describe('Output of an earlier tool call this step relies on, quoted verbatim.'),
+  })).min(1).max(20).describe('Steps in order; each should be small enough to follow on its own.'),
+  finalAnswer: z.string().optional().describe('The final answer as LaTeX without $ delimiters.'),
+});
+
+export type StepSolution = z.infer<typeof stepSolutionSchema>;
+
+// Plain-text rendering for prompts that only see text, such as answer verification
+export function stepsToText({ problem, steps, finalAnswer }: StepSolution): string {
+  return [
+    `Problem: ${problem}`,
+    ...steps.map((step, index) => `${index + 1}. ${step.title}: ${step.latex} (${step.justification})`),
+    ...(finalAnswer ? [`Final answer: ${finalAnswer}`] : []),
+  ].join('\n');
+}
+
+export const showSteps = defineTool({
+  name: 'showSteps',
+  description: 'Presents a worked solution as an ordered list of steps that the student can reveal one at a time. Use it instead of writing a long derivation in the reply.',
+  schema: stepSolutionSchema,
+  outputKind: 'steps',
+  handler: async (solution): Promise<StepSolution> => solution,
+});
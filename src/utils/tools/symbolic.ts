@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import { runPolicy } from '../python/policy';
+import { runSympyScript, sympyExpression, sympyVariable } from '../sympy';
+import { defineTool } from './registry';
+
+export const SYMBOLIC_OPERATIONS = ['solve', 'simplify', 'factor', 'expand', 'diff', 'integrate', 'limit', 'series', 'solveOde'] as const;
+
+const symbolicSchema = z.object({
+  operation: z.enum(SYMBOLIC_OPERATIONS).describe('What to compute. solveOde solves an ordinary differential equation for f(x).'),
+  expression: sympyExpression('SymPy expression such as "x^2 - 5x + 6", "sin(x)/x" or "x^2 = 4". For solveOde write the equation in f(x) with derivatives as diff(f(x), x), e.g. "diff(f(x), x, 2) + f(x) = 0".'),
+  variable: sympyVariable().default('x')
+    .describe('Variable to solve for, differentiate or integrate with respect to, or take the limit or series in.'),
+  order: z.number().int().min(1).max(20).optional().describe('Derivative order for diff, or number of terms for series.'),
+  point: sympyExpression('Point for limit (use oo for infinity) or the expansion point for series.').optional(),
+  direction: z.enum(['+', '-', '+-']).optional().describe('Side to approach the point from in a limit; both sides by default.'),
+  lower: sympyExpression('Lower bound for a definite integral.').optional(),
+  upper: sympyExpression('Upper bound for a definite integral.').optional(),
+}).superRefine((args, ctx) => {
+  if (args.operation === 'limit' && !args.point) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'limit needs a point', path: ['point'] });
+  }
+  if ((args.lower === undefined) !== (args.upper === undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Give both lower and upper for a definite integral', path: ['upper'] });
+  }
+});
+
+type SymbolicArgs = z.infer<typeof symbolicSchema>;
+
+export interface SymbolicResult {
+  operation: SymbolicArgs['operation'];
+  expression: string;
+  // SymPy's plain-text form, for the model to reuse
+  result: string;
+  latex: string;
+}
+
+// Computes one operation; the parser prelude and JSON plumbing come from runSympyScript
+const SYMBOLIC_SCRIPT = `
+def main(args):
+    x = sympy.Symbol(args['variable'])
+    f = sympy.Function('f')
+    parse = make_parser({args['variable']: x, 'f': f})
+
+    expr = parse(args['expression'])
+    operation = args['operation']
+
+    if operation == 'solve':
+        result = sympy.solve(expr, x)
+    elif operation == 'simplify':
+        result = sympy.simplify(expr)
+    elif operation == 'factor':
+        result = sympy.factor(expr)
+    elif operation == 'expand':
+        result = sympy.expand(expr)
+    elif operation == 'diff':
+        result = sympy.diff(expr, x, args.get('order') or 1)
+    elif operation == 'integrate':
+        if 'lower' in args:
+            result = sympy.integrate(expr, (x, parse(args['lower']), parse(args['upper'])))
+        else:
+            result = sympy.integrate(expr, x)
+    elif operation == 'limit':
+        result = sympy.limit(expr, x, parse(args['point']), args.get('direction') or '+-')
+    elif operation == 'series':
+        result = sympy.series(expr, x, parse(args.get('point') or '0'), args.get('order') or 6)
+    else:
+        equation = expr if isinstance(expr, sympy.Eq) else sympy.Eq(expr, 0)
+        result = sympy.dsolve(equation, f(x))
+
+    return {'result': sympy.sstr(result), 'latex': sympy.latex(result)}
+`;
+
+export const symbolic = defineTool({
+  name: 'symbolic',
+  description: 'Exact symbolic math with SymPy: solve equations, simplify, factor, expand, differentiate, integrate, take limits and series, and solve ODEs. Returns the result as plain text and LaTeX.',
+  schema: symbolicSchema,
+  outputKind: 'math',
+  handler: async (args, { signal, sessionId, learnerId, mode }): Promise<SymbolicResult> => {
+    const { result, latex } = await runSympyScript<Pick<SymbolicResult, 'result' | 'latex'>>(SYMBOLIC_SCRIPT, args, {
+      signal,
+      limits: runPolicy('symbolic', mode),
+      userKey: learnerId ?? sessionId,
+    });
+    return { operation: args.operation, expression: args.expression, result, latex };
+  },
+});
@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { generateProblem, MAX_SEED, problemTemplates, TEMPLATE_IDS } from '../problems';
+import { defineTool } from './registry';
+import type { Quiz } from './generateQuiz';
+
+const templateQuizSchema = z.object({
+  template: z.enum(TEMPLATE_IDS)
+    .describe(`Problem template: ${TEMPLATE_IDS.map(id => `${id} (${problemTemplates[id].description})`).join(', ')}`),
+  type: z.enum(['mcq', 'fillInBlank']).describe('Type of quiz (mcq or fillInBlank)'),
+  seed: z.number().int().min(0).max(MAX_SEED).optional()
+    .describe('Seed of an earlier templated quiz to pose the same problem again; omit for a new problem'),
+});
+
+// Same shape as a generated quiz, so the chat renders it the same way
+export type TemplateQuiz = Omit<Quiz, 'difficulty'> & {
+  topic: string;
+  template: string;
+  seed: number;
+};
+
+export const templateQuiz = defineTool({
+  name: 'templateQuiz',
+  description: 'Poses a quiz question drawn from a problem template. The parameters are random but reproducible from the seed, and the correct answer is computed rather than guessed, so prefer this over generateQuiz whenever a template covers the topic.',
+  schema: templateQuizSchema,
+  outputKind: 'quiz',
+  handler: async ({ template, type, seed }): Promise<TemplateQuiz> => {
+    const problem = generateProblem(template, seed);
+    return {
+      type,
+      question: problem.question,
+      ...(type === 'mcq' ? { options: problem.options } : {}),
+      correctAnswer: problem.answer,
+      topic: problemTemplates[template].topic,
+      template,
+      seed: problem.seed,
+    };
+  },
+});
@@ -0,0 +1,66 @@
+// Pedagogy modes the student can pick; shared by the chat route and the mode picker
+
+export const TUTOR_MODES = ['socratic', 'direct', 'examPrep'] as const;
+export type TutorMode = typeof TUTOR_MODES[number];
+
+export const DEFAULT_TUTOR_MODE: TutorMode = 'direct';
+
+export interface TutorModeConfig {
+  label: string;
+  description: string;
+  // Appended to the base system prompt
+  promptFragment: string;
+  temperature: number;
+  allowedTools: string[];
+  // Tools the model uses for its own checks; the student sees neither the calls nor their results
+  privateTools: string[];
+  // Whether replies offer the hint ladder for the student's question; quizzes always do
+  offersHints: boolean;
+  // Whether a final answer that fails verification is corrected in a follow-up, which states the answer
+  revisesAnswers: boolean;
+}
+
+export const tutorModes: Record<TutorMode, TutorModeConfig> = {
+  socratic: {
+    label: 'Socratic',
+    description: 'Guiding questions only, never the final answer',
+    promptFragment: `MODE: Socratic tutor.
+- Respond only with guiding questions and small hints that lead the student to the next step.
+- Never state the final answer or complete the solution, even if the student asks for it directly; ask what they have tried instead.
+- You may use runPython or symbolic privately to check the student's work, but do not reveal results that give away the answer.
+- When the student reaches the answer themselves, confirm it and ask them to explain why it works.`,
+    temperature: 0.7,
+    allowedTools: ['runPython', 'symbolic', 'plotFunction', 'getChart', 'generateMermaid'],
+    // Their results would show the student the answer this mode withholds
+    privateTools: ['runPython', 'symbolic'],
+    offersHints: true,
+    // A wrong answer is still recorded by verification, but correcting it here would reveal it
+    revisesAnswers: false,
+  },
+  direct: {
+    label: 'Direct',
+    description: 'Full worked solutions with explanations',
+    promptFragment: `MODE: Direct tutor.
+- Give complete worked solutions with showSteps, one small step at a time, each with a short justification.
+- State the final answer clearly at the end.
+- Use code and visualizations when they make the method clearer.`,
+    temperature: 0.4,
+    allowedTools: ['runPython', 'symbolic', 'showSteps', 'plotFunction', 'getChart', 'generateMermaid', 'templateQuiz', 'generateQuiz'],
+    privateTools: [],
+    offersHints: false,
+    revisesAnswers: true,
+  },
+  examPrep: {
+    label: 'Exam prep',
+    description: 'Practice questions with terse feedback',
+    promptFragment: `MODE: Exam preparation.
+- Drill the student with practice questions one at a time, using templateQuiz when a template covers the topic and generateQuiz otherwise.
+- Feedback on answers is terse: say whether it is correct, give the key step that was missed, then move on to the next question.
+- Avoid long explanations unless the student asks for one.`,
+    temperature: 0.9,
+    allowedTools: ['runPython', 'symbolic', 'templateQuiz', 'generateQuiz'],
+    privateTools: [],
+    offersHints: true,
+    revisesAnswers: true,
+  },
+};
@@ -0,0 +1,177 @@
+import { z } from 'zod';
+import { ExecuteOptions } from './executePython';
+import { generateText, LLMProvider } from './llm';
+import { runPolicy } from './python/policy';
+import { runSympyScript, sympyExpression, sympyVariable } from './sympy';
+import { TutorMode } from './tutorModes';
+
+// 'revise' asks the model to correct a mismatched answer once; 'badge' only labels the reply
+export const VERIFICATION_MODES = ['revise', 'badge', 'off'] as const;
+export type VerificationMode = typeof VERIFICATION_MODES[number];
+
+export function verificationMode(): VerificationMode {
+  const mode = process.env.ANSWER_VERIFICATION as VerificationMode | undefined;
+  return mode && VERIFICATION_MODES.includes(mode) ? mode : 'revise';
+}
+
+const checkSchema = z.discriminatedUnion('kind', [
+  // `expression` computes the answer from the problem; `expected` is the tutor's answer
+  z.object({ kind: z.literal('value'), expression: sympyExpression(), expected: sympyExpression() }),
+  z.object({
+    kind: z.literal('solutions'),
+    equation: sympyExpression(),
+    variable: sympyVariable(),
+    expected: z.array(sympyExpression()),
+  }),
+]);
+
+const claimSchema = z.object({
+  description: z.string(),
+  claimed: z.string(),
+  check: checkSchema,
+});
+
+type Claim = z.infer<typeof claimSchema>;
+
+export interface CheckedClaim {
+  description: string;
+  claimed: string;
+  outcome: 'agrees' | 'disagrees' | 'error';
+  // What SymPy computed, or why the check could not run
+  detail?: string;
+}
+
+export interface Verification {
+  // 'none' means the reply stated no final answer that could be recomputed
+  status: 'verified' | 'unverified' | 'none';
+  claims: CheckedClaim[];
+  // The model was asked to correct its answer after a failed check
+  revised: boolean;
+}
+
+const EXTRACTION_INSTRUCTION = `You check a math tutor's reply. List the final answers it states (numbers, expressions, solution sets) that SymPy can recompute independently, as JSON:
+{"claims": [{"description": "definite integral of x^2 from 0 to 1", "claimed": "1/3", "check": {"kind": "value", "expression": "integrate(x^2, (x, 0, 1))", "expected": "1/3"}}]}
+For equations use {"kind": "solutions", "equation": "x^2 - 5x + 6 = 0", "variable": "x", "expected": ["2", "3"]}.
+Rules:
+- Expressions use only letters, digits, spaces and + - * / ^ ( ) , = with SymPy names such as integrate, diff, limit, sqrt, pi, E and oo.
+- "expression" must compute the answer from the original problem; never restate the tutor's answer there.
+- "expected" is the tutor's answer exactly as stated, including any rounding.
+- If the reply corrects an earlier answer, check only the corrected one.
+- Skip intermediate steps, hints, questions to the student and anything that cannot be computed.
+- Return {"claims": []} when there is nothing to check. Output JSON only.`;
+
+// Checks run together in one interpreter so SymPy is imported once
+const CHECK_SCRIPT = `
+def same(actual, expected, tolerance):
+    if sympy.simplify(actual - expected) == 0:
+        return True
+    try:
+        actual_value = complex(sympy.N(actual))
+        expected_value = complex(sympy.N(expected))
+    except (TypeError, ValueError):
+        return False
+    return abs(actual_value - expected_value) <= tolerance * max(1, abs(expected_value))
+
+
+def tolerance_for(texts):
+    # Decimal answers are usually rounded, exact ones must match exactly
+    return 5e-3 if any('.' in text for text in texts) else 1e-9
+
+
+def run_check(check):
+    if check['kind'] == 'value':
+        parse = make_parser({})
+        actual = parse(check['expression'])
+        expected = parse(check['expected'])
+        agrees = same(actual, expected, tolerance_for([check['expected']]))
+        return {'outcome': 'agrees' if agrees else 'disagrees', 'detail': sympy.sstr(actual)}
+
+    variable = sympy.Symbol(check['variable'])
+    parse = make_parser({check['variable']: variable})
+    actual = sympy.solve(parse(check['equation']), variable)
+    expected = [parse(value) for value in check['expected']]
+    tolerance = tolerance_for(check['expected'])
+    agrees = len(actual) == len(expected) and all(
+        any(same(solution, value, tolerance) for solution in actual) for value in expected
+    )
+    return {'outcome': 'agrees' if agrees else 'disagrees', 'detail': sympy.sstr(actual)}
+
+
+def main(args):
+    results = []
+    for check in args['checks']:
+        try:
+            results.append(run_check(check))
+        except Exception as error:
+            results.append({'outcome': 'error', 'detail': f'{type(error).__name__}: {error}'})
+    return {'results': results}
+`;
+
+// Models often wrap JSON in a code fence even when told not to
+function parseClaims(text: string): Claim[] {
+  try {
+    const json = JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    const claims: unknown[] = Array.isArray(json?.claims) ? json.claims : [];
+    return claims.flatMap(claim => {
+      const parsed = claimSchema.safeParse(claim);
+      return parsed.success ? [parsed.data] : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+export interface VerifyOptions extends ExecuteOptions {
+  // The tutor mode of the turn, which picks the execution policy for the check
+  mode?: TutorMode;
+}
+
+// Extracts the final answers from `reply` and recomputes them with SymPy in the sandbox
+export async function verifyReply(
+  provider: LLMProvider,
+  question: string,
+  reply: string,
+  { signal, userKey, mode }: VerifyOptions = {},
+): Promise<Verification> {
+  const extraction = await generateText(
+    provider,
+    EXTRACTION_INSTRUCTION,
+    `Student question:\n${question}\n\nTutor reply:\n${reply}`,
+    { temperature: 0 },
+    { signal },
+  );
+  const claims = parseClaims(extraction).slice(0, 5);
+  if (claims.length === 0) {
+    return { status: 'none', claims: [], revised: false };
+  }
+
+  let results: Pick<CheckedClaim, 'outcome' | 'detail'>[];
+  try {
+    ({ results } = await runSympyScript<{ results: Pick<CheckedClaim, 'outcome' | 'detail'>[] }>(
+      CHECK_SCRIPT,
+      { checks: claims.map(claim => claim.check) },
+      { signal, userKey, limits: runPolicy('verification', mode) },
+    ));
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    const detail = error instanceof Error ? error.message : String(error);
+    results = claims.map(() => ({ outcome: 'error', detail }));
+  }
+
+  const checked = claims.map(({ description, claimed }, index) => ({ description, claimed, ...results[index] }));
+  return {
+    status: checked.every(claim => claim.outcome === 'agrees') ? 'verified' : 'unverified',
+    claims: checked,
+    revised: false,
+  };
+}
+
+// Follow-up message asking the model to correct answers that failed the check
+export function revisionRequest({ claims }: Verification): string {
+  const mismatches = claims
+    .filter(claim => claim.outcome === 'disagrees')
+    .map(claim => `- ${claim.description}: you gave ${claim.claimed}, SymPy computes ${claim.detail}`);
+  return `Automatic check: these final answers in your reply do not match an independent SymPy recomputation:
+${mismatches.join('\n')}
+Re-check your work, using the tools if useful, and state the corrected final answer. If your original answer was right, explain briefly why the check differs. Address the student directly and do not mention this message.`;
+}